@@ -1,4 +1,39 @@
-import type { Command } from '@nexoc/types'
+import path from 'node:path'
+import type { Command, PromptQuestion } from '@nexoc/types'
+import {
+  generateProject,
+  detectPackageManager,
+  isTsconfigPreset,
+  TSCONFIG_PRESETS,
+} from '@nexoc/generator'
+import type { PackageManager, TemplateQuestion } from '@nexoc/generator'
+
+interface InitOptions {
+  template: string
+  force: boolean
+  preset: string
+  packageManager?: PackageManager
+  skipActions: boolean
+}
+
+interface InitArgs {
+  name: string
+}
+
+function toPromptQuestion(question: TemplateQuestion): PromptQuestion {
+  const type = question.type === 'string' ? 'text' : question.type === 'boolean' ? 'confirm' : 'select'
+
+  return {
+    name: question.name,
+    type,
+    message: question.message,
+    initial: question.default,
+    choices: question.type === 'select' ? question.choices : undefined,
+    validate: question.type === 'string' && question.validate
+      ? value => question.validate!(String(value))
+      : undefined,
+  }
+}
 
 export const command: Command = {
   meta: {
@@ -13,6 +48,10 @@ export const command: Command = {
       description: 'Project template to use',
       alias: 't',
       default: 'default',
+      prompt: {
+        type: 'text',
+        message: 'Template (name, path or package)',
+      },
     },
     force: {
       type: 'boolean',
@@ -20,19 +59,75 @@ export const command: Command = {
       alias: 'f',
       default: false,
     },
+    preset: {
+      type: 'string',
+      description: `TypeScript config preset (${TSCONFIG_PRESETS.join(', ')})`,
+      default: 'node',
+      prompt: {
+        type: 'select',
+        message: 'TypeScript config preset',
+        choices: [...TSCONFIG_PRESETS],
+      },
+    },
+    packageManager: {
+      type: 'string',
+      description: 'Package manager used in the generated project',
+      alias: 'p',
+    },
+    skipActions: {
+      type: 'boolean',
+      description: 'Skip post-generate steps such as installing dependencies',
+      default: false,
+    },
   },
   args: {
     name: {
       description: 'Project name',
       required: false,
       default: 'my-nexo-project',
+      prompt: {
+        type: 'text',
+        message: 'Project name',
+        validate: value => String(value).trim() ? true : 'Project name cannot be empty',
+      },
     },
   },
-  async run(_ctx) {
-    console.log('init command2')
-    // TODO: Implement init logic
+  async run(ctx) {
+    const options = ctx.options as unknown as InitOptions
+    const args = ctx.args as unknown as InitArgs
+    const cwd = ctx.nexoc.config.rootDir || process.cwd()
+
+    if (!isTsconfigPreset(options.preset)) {
+      throw new Error(
+        `Unknown tsconfig preset "${options.preset}". Expected one of: ${TSCONFIG_PRESETS.join(', ')}`
+      )
+    }
+
+    const targetDir = path.resolve(cwd, args.name)
+    const result = await generateProject({
+      template: options.template,
+      targetDir,
+      force: options.force,
+      cwd,
+      skipActions: options.skipActions,
+      nexoc: ctx.nexoc,
+      resolveQuestion: question => ctx.prompt(toPromptQuestion(question)),
+      variables: {
+        name: path.basename(targetDir),
+        packageManager: options.packageManager || detectPackageManager(),
+        tsconfigPreset: options.preset,
+      },
+    })
+
+    ctx.logger.info(`Created ${path.basename(targetDir)} from template "${result.template.name}" (${result.template.source})`)
+    for (const file of result.files) {
+      ctx.logger.info(`  + ${path.relative(cwd, path.join(result.targetDir, file))}`)
+    }
+    for (const action of result.actions) {
+      ctx.logger.info(`  ✓ ${action}`)
+    }
+    ctx.logger.success(`${result.files.length} files written to ${result.targetDir}`)
   },
 }
 
 export default command
-
@@ -0,0 +1,244 @@
+import { createHash } from 'node:crypto'
+import { existsSync } from 'node:fs'
+import { cp, mkdir, readdir, readFile, rename, rm, stat, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { BuildAdapter, BuildCacheConfig, BuildOptions, BuildResult } from '@nexoc/types'
+import { toPosixPath, walkFiles } from './utils'
+import { createIgnoreMatcher, DEFAULT_WATCH_IGNORE } from './watch'
+
+export const DEFAULT_CACHE_DIR = '.nexoc/cache'
+
+// Bump when the entry layout changes so old entries are treated as misses
+const CACHE_FORMAT = 1
+const ENTRY_FILE = 'entry.json'
+const FILES_DIR = 'files'
+
+export interface BuildCacheOptions extends BuildCacheConfig {
+  /** Resolved configuration, part of every cache key */
+  config?: unknown
+}
+
+interface CacheEntry {
+  format: number
+  key: string
+  adapter: string
+  createdAt: number
+  usedAt: number
+  size: number
+  /** Output files relative to rootDir */
+  outputs: string[]
+  warnings?: string[]
+}
+
+export interface PruneOptions {
+  maxSize?: number
+  maxAge?: number
+  now?: number
+}
+
+export interface PruneResult {
+  removed: string[]
+  freed: number
+  size: number
+}
+
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, current: unknown) => {
+    if (typeof current === 'function') return `[function ${current.toString()}]`
+    if (current && typeof current === 'object' && !Array.isArray(current)) {
+      const record = current as Record<string, unknown>
+      return Object.fromEntries(Object.keys(record).sort().map(key => [key, record[key]]))
+    }
+    return current
+  }) ?? ''
+}
+
+async function readEntry(dir: string): Promise<CacheEntry | undefined> {
+  const file = path.join(dir, ENTRY_FILE)
+  if (!existsSync(file)) return undefined
+
+  try {
+    const entry = JSON.parse(await readFile(file, 'utf-8')) as CacheEntry
+    return entry.format === CACHE_FORMAT ? entry : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Removes entries unused for longer than `maxAge`, then the least recently
+ * used ones until the cache fits in `maxSize` bytes.
+ */
+export async function pruneBuildCache(dir: string, options: PruneOptions = {}): Promise<PruneResult> {
+  const result: PruneResult = { removed: [], freed: 0, size: 0 }
+  if (!existsSync(dir)) return result
+
+  const now = options.now ?? Date.now()
+  const entries: CacheEntry[] = []
+
+  for (const name of await readdir(dir)) {
+    // Staging directory of a store that may still be in progress
+    if (name.includes('.tmp-')) continue
+
+    const entry = await readEntry(path.join(dir, name))
+    if (entry) {
+      entries.push(entry)
+    } else {
+      // Leftovers of interrupted writes or an older cache format
+      await rm(path.join(dir, name), { recursive: true, force: true })
+    }
+  }
+
+  entries.sort((a, b) => a.usedAt - b.usedAt)
+  let size = entries.reduce((total, entry) => total + entry.size, 0)
+
+  for (const entry of entries) {
+    const expired = options.maxAge !== undefined && now - entry.usedAt > options.maxAge
+    const oversized = options.maxSize !== undefined && size > options.maxSize
+    if (!expired && !oversized) continue
+
+    await rm(path.join(dir, entry.key), { recursive: true, force: true })
+    result.removed.push(entry.key)
+    result.freed += entry.size
+    size -= entry.size
+  }
+
+  result.size = size
+  return result
+}
+
+/**
+ * Content-addressed store of build outputs. The key covers the source files
+ * under rootDir, the resolved config, the adapter name and version and the
+ * BuildOptions; a hit copies the stored outputs back into place.
+ */
+export class BuildCache {
+  private options: BuildCacheOptions
+
+  constructor(options: BuildCacheOptions = {}) {
+    this.options = options
+  }
+
+  getDir(rootDir: string): string {
+    return path.resolve(rootDir, this.options.dir || DEFAULT_CACHE_DIR)
+  }
+
+  /**
+   * @param exclude - extra directories to leave out of the input hash, such
+   * as the outDirs of other targets built in the same run
+   */
+  async computeKey(adapter: BuildAdapter, options: BuildOptions, exclude: string[] = []): Promise<string> {
+    const { rootDir } = options
+    const ignore = [...DEFAULT_WATCH_IGNORE, ...(this.options.ignore || [])]
+
+    for (const dir of [options.outDir, this.getDir(rootDir), ...exclude]) {
+      const relative = toPosixPath(path.relative(rootDir, path.resolve(rootDir, dir)))
+      if (relative && !relative.startsWith('..')) ignore.push(`${relative}/**`)
+    }
+
+    const files = await walkFiles(rootDir, createIgnoreMatcher(ignore))
+
+    const hash = createHash('sha256')
+    hash.update(stableStringify({
+      format: CACHE_FORMAT,
+      adapter: adapter.name,
+      version: adapter.version,
+      options: { ...options, cache: undefined },
+      config: this.options.config,
+    }))
+
+    for (const file of files) {
+      hash.update(`\0${file}\0`)
+      hash.update(await readFile(path.join(rootDir, file)))
+    }
+
+    return hash.digest('hex').slice(0, 32)
+  }
+
+  async restore(key: string, options: BuildOptions): Promise<BuildResult | undefined> {
+    const dir = path.join(this.getDir(options.rootDir), key)
+    const entry = await readEntry(dir)
+    if (!entry) return undefined
+
+    for (const file of entry.outputs) {
+      const target = path.join(options.rootDir, file)
+      await mkdir(path.dirname(target), { recursive: true })
+      await cp(path.join(dir, FILES_DIR, file), target)
+    }
+
+    entry.usedAt = Date.now()
+    await writeFile(path.join(dir, ENTRY_FILE), `${JSON.stringify(entry, null, 2)}\n`)
+
+    return {
+      success: true,
+      outputs: entry.outputs.map(file => path.join(options.rootDir, file)),
+      duration: 0,
+      warnings: entry.warnings,
+      cache: { hit: true, key },
+    }
+  }
+
+  /**
+   * Stores the outputs of a successful build. Returns false when an output
+   * lies outside rootDir and therefore cannot be restored reliably.
+   */
+  async store(key: string, adapter: BuildAdapter, options: BuildOptions, result: BuildResult): Promise<boolean> {
+    const outputs = result.outputs.map(file => toPosixPath(path.relative(options.rootDir, file)))
+    if (outputs.some(file => file.startsWith('..') || path.isAbsolute(file))) return false
+
+    const cacheDir = this.getDir(options.rootDir)
+    const dir = path.join(cacheDir, key)
+    const staging = `${dir}.tmp-${process.pid}`
+    const stored: string[] = []
+    let size = 0
+
+    await rm(staging, { recursive: true, force: true })
+
+    for (const file of outputs) {
+      const source = path.join(options.rootDir, file)
+      const info = existsSync(source) ? await stat(source) : undefined
+      if (!info?.isFile()) continue
+
+      const target = path.join(staging, FILES_DIR, file)
+      await mkdir(path.dirname(target), { recursive: true })
+      await cp(source, target)
+      stored.push(file)
+      size += info.size
+    }
+
+    const now = Date.now()
+    const entry: CacheEntry = {
+      format: CACHE_FORMAT,
+      key,
+      adapter: adapter.name,
+      createdAt: now,
+      usedAt: now,
+      size,
+      outputs: stored,
+      warnings: result.warnings,
+    }
+
+    await mkdir(staging, { recursive: true })
+    await writeFile(path.join(staging, ENTRY_FILE), `${JSON.stringify(entry, null, 2)}\n`)
+    await rm(dir, { recursive: true, force: true })
+    await rename(staging, dir)
+
+    if (this.options.maxSize !== undefined || this.options.maxAge !== undefined) {
+      await this.prune(options.rootDir)
+    }
+
+    return true
+  }
+
+  prune(rootDir: string, options: PruneOptions = {}): Promise<PruneResult> {
+    return pruneBuildCache(this.getDir(rootDir), {
+      maxSize: this.options.maxSize,
+      maxAge: this.options.maxAge,
+      ...options,
+    })
+  }
+
+  async clear(rootDir: string): Promise<void> {
+    await rm(this.getDir(rootDir), { recursive: true, force: true })
+  }
+}
@@ -1,10 +1,24 @@
+import path from 'node:path'
 import type {
   BuildAdapter,
   BuildOptions,
   BuildResult,
   AdapterRegistry,
-  NexocHookable
+  NexocHookable,
+  Logger,
+  DevOptions,
+  DevChange,
+  DevServer,
+  BuildTarget,
+  BuildPlanOptions,
 } from '@nexoc/types'
+import { nodeAdapter } from './node'
+import { staticAdapter } from './static'
+import { serverlessAdapter } from './serverless'
+import { createWatcher, DEFAULT_WATCH_IGNORE } from './watch'
+import { resolveBuildTargets, runBuildPlan } from './plan'
+import { resolveOutDir } from './utils'
+import type { BuildCache } from './cache'
 
 export function createAdapterRegistry(): AdapterRegistry {
   const adapters = new Map<string, BuildAdapter>()
@@ -32,11 +46,18 @@ export class BuildManager {
   private registry: AdapterRegistry
   private hooks: NexocHookable
   private defaultAdapter?: string
+  private logger?: Logger
+  private cache?: BuildCache
 
-  constructor(hooks: NexocHookable, registry: AdapterRegistry, defaultAdapter?: string) {
+  constructor(hooks: NexocHookable, registry: AdapterRegistry, defaultAdapter?: string, logger?: Logger) {
     this.hooks = hooks
     this.registry = registry
     this.defaultAdapter = defaultAdapter
+    this.logger = logger
+  }
+
+  setCache(cache: BuildCache | undefined): void {
+    this.cache = cache
   }
 
   registerAdapter(adapter: BuildAdapter): void {
@@ -65,24 +86,49 @@ export class BuildManager {
   }
 
   async build(options: BuildOptions, adapterName?: string): Promise<BuildResult> {
+    return this.runBuild(options, adapterName, [])
+  }
+
+  /** `excludeDirs` are left out of the cache key, next to outDir */
+  private async runBuild(options: BuildOptions, adapterName: string | undefined, excludeDirs: string[]): Promise<BuildResult> {
     const adapter = this.getAdapter(adapterName)
+    const logger = this.logger?.child(adapter.name)
     const startTime = Date.now()
 
-    await this.hooks.callHook('build:before', options)
+    await this.hooks.callHook('build:before', options, adapter.name)
+    logger?.debug(`Building ${options.rootDir} -> ${options.outDir}`)
 
     try {
-      if (adapter.setup) {
-        await adapter.setup()
+      const cacheKey = this.cache && options.cache !== false
+        ? await this.cache.computeKey(adapter, options, excludeDirs)
+        : undefined
+      const cached = cacheKey ? await this.cache!.restore(cacheKey, options) : undefined
+
+      let result: BuildResult
+      if (cached) {
+        logger?.debug(`Restored ${cached.outputs.length} outputs from cache ${cacheKey}`)
+        result = cached
+      } else {
+        if (adapter.setup) {
+          await adapter.setup()
+        }
+        result = await adapter.build(options)
+        if (cacheKey) {
+          result.cache = { hit: false, key: cacheKey }
+          if (result.success) await this.storeInCache(cacheKey, adapter, options, result)
+        }
       }
-
-      const result = await adapter.build(options)
       result.duration = Date.now() - startTime
 
-      await this.hooks.callHook('build:after', result)
+      for (const warning of result.warnings || []) {
+        logger?.warn(warning)
+      }
+
+      await this.hooks.callHook('build:after', result, options)
 
       return result
     } catch (error) {
-      await this.hooks.callHook('build:error', error as Error)
+      await this.hooks.callHook('build:error', error as Error, options)
 
       return {
         success: false,
@@ -93,23 +139,162 @@ export class BuildManager {
     }
   }
 
-  async dev(options: BuildOptions, adapterName?: string): Promise<void> {
+  private async storeInCache(key: string, adapter: BuildAdapter, options: BuildOptions, result: BuildResult): Promise<void> {
+    try {
+      if (!await this.cache!.store(key, adapter, options, result)) {
+        this.logger?.child(adapter.name).debug('Outputs outside rootDir, not cached')
+      }
+    } catch (error) {
+      // A broken cache must never fail an otherwise successful build
+      this.logger?.child(adapter.name).warn(`Could not write build cache: ${(error as Error).message}`)
+    }
+  }
+
+  /**
+   * Builds several targets in one run, see runBuildPlan for ordering and
+   * failure policies. The result merges all targets and keeps a breakdown
+   * in `targets`.
+   */
+  async buildAll(
+    targets: BuildTarget[],
+    options: BuildOptions,
+    planOptions: BuildPlanOptions = {}
+  ): Promise<BuildResult> {
+    const resolved = resolveBuildTargets(targets, options)
+    for (const target of resolved) {
+      this.getAdapter(target.adapter)
+    }
+
+    // Sibling outputs change while the plan runs, keep them out of cache keys
+    const outDirs = resolved.map(target => resolveOutDir(target.options))
+    return runBuildPlan(resolved, target => this.runBuild(target.options, target.adapter, outDirs), planOptions)
+  }
+
+  async dev(options: DevOptions, adapterName?: string): Promise<DevServer> {
     const adapter = this.getAdapter(adapterName)
+    const logger = this.logger?.child(adapter.name)
+    const hooks = this.hooks
+
+    const outDir = path.relative(options.rootDir, path.resolve(options.rootDir, options.outDir))
+    const ignore = [...DEFAULT_WATCH_IGNORE, ...(options.ignore || [])]
+    if (outDir && !outDir.startsWith('..')) {
+      ignore.push(`${outDir.split(path.sep).join('/')}/**`)
+    }
+
+    await hooks.callHook('dev:start', options)
+
+    const session = (await adapter.dev?.(options)) || undefined
+    const pending: DevChange[] = []
+    let running: Promise<BuildResult> | undefined
+    let stopped = false
+
+    const rebuild = async (changes: DevChange[]): Promise<BuildResult> => {
+      const result = await this.build(options, adapter.name)
+
+      if (result.success) {
+        logger?.success(`Built in ${result.duration}ms`)
+        await session?.update?.(result)
+      } else {
+        for (const error of result.errors || []) {
+          logger?.error(error)
+        }
+      }
+
+      await hooks.callHook('dev:rebuild', result, changes)
+      return result
+    }
+
+    // Changes that arrive during a build are batched into the next one
+    const schedule = (): Promise<BuildResult> => {
+      if (!running) {
+        running = (async () => {
+          let result: BuildResult
+          do {
+            result = await rebuild(pending.splice(0))
+          } while (pending.length > 0 && !stopped)
+          running = undefined
+          return result
+        })()
+      }
+      return running
+    }
 
-    if (!adapter.dev) {
-      throw new Error(`Adapter "${adapter.name}" does not support dev mode`)
+    let resolveClosed!: () => void
+    const closed = new Promise<void>((resolve) => {
+      resolveClosed = resolve
+    })
+
+    await schedule()
+
+    const watcher = createWatcher(options.rootDir, {
+      ignore,
+      debounce: options.debounce,
+      onChange: async (changes) => {
+        if (stopped) return
+        await hooks.callHook('dev:change', changes)
+        logger?.info(changes.length === 1
+          ? `${changes[0]!.type} ${changes[0]!.path}, rebuilding`
+          : `${changes.length} files changed, rebuilding`)
+        pending.push(...changes)
+        await schedule()
+      },
+      onError: error => logger?.error(error),
+    })
+
+    const onSignal = () => {
+      void server.close()
     }
 
-    if (adapter.setup) {
-      await adapter.setup()
+    const server: DevServer = {
+      rebuild: schedule,
+      closed,
+
+      async close(): Promise<void> {
+        if (stopped) return closed
+        stopped = true
+
+        process.off('SIGINT', onSignal)
+        options.signal?.removeEventListener('abort', onSignal)
+        watcher.close()
+        await running?.catch(() => undefined)
+
+        try {
+          await session?.close?.()
+          await hooks.callHook('dev:stop')
+        } finally {
+          resolveClosed()
+        }
+      },
+    }
+
+    // An external signal takes over shutdown from the process signal handler
+    if (options.signal) {
+      if (options.signal.aborted) {
+        onSignal()
+      } else {
+        options.signal.addEventListener('abort', onSignal, { once: true })
+      }
+    } else if (options.handleSignals !== false) {
+      process.once('SIGINT', onSignal)
     }
 
-    await adapter.dev(options)
+    return server
   }
 
+  /**
+   * Removes the build output. The outDir must be inside rootDir, so a wrong
+   * `--outDir` cannot remove the project or anything around it.
+   */
   async clean(options: BuildOptions, adapterName?: string): Promise<void> {
     const adapter = this.getAdapter(adapterName)
 
+    const rootDir = path.resolve(options.rootDir)
+    const outDir = resolveOutDir(options)
+    const relative = path.relative(rootDir, outDir)
+    if (!relative || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+      throw new Error(`Refusing to clean "${outDir}", outDir must be a directory inside rootDir "${rootDir}"`)
+    }
+
     if (!adapter.clean) {
       return
     }
@@ -125,59 +310,12 @@ export function defineAdapter(adapter: BuildAdapter): BuildAdapter {
 export function createBuildManager(
   hooks: NexocHookable,
   registry: AdapterRegistry,
-  defaultAdapter?: string
+  defaultAdapter?: string,
+  logger?: Logger
 ): BuildManager {
-  return new BuildManager(hooks, registry, defaultAdapter)
+  return new BuildManager(hooks, registry, defaultAdapter, logger)
 }
 
-export const nodeAdapter = defineAdapter({
-  name: 'node',
-  description: 'Node.js build adapter',
-  targets: ['node'],
-
-  async build(options: BuildOptions): Promise<BuildResult> {
-    return {
-      success: true,
-      outputs: [`${options.outDir}/index.js`],
-      duration: 0,
-    }
-  },
-
-  async dev(_options: BuildOptions): Promise<void> {},
-
-  async clean(_options: BuildOptions): Promise<void> {},
-})
-
-export const staticAdapter = defineAdapter({
-  name: 'static',
-  description: 'Static site build adapter',
-  targets: ['static', 'browser'],
-
-  async build(options: BuildOptions): Promise<BuildResult> {
-    return {
-      success: true,
-      outputs: [`${options.outDir}/index.html`],
-      duration: 0,
-    }
-  },
-
-  async dev(_options: BuildOptions): Promise<void> {},
-})
-
-export const serverlessAdapter = defineAdapter({
-  name: 'serverless',
-  description: 'Serverless functions build adapter',
-  targets: ['vercel', 'netlify', 'cloudflare'],
-
-  async build(options: BuildOptions): Promise<BuildResult> {
-    return {
-      success: true,
-      outputs: [`${options.outDir}/functions`],
-      duration: 0,
-    }
-  },
-})
-
 export function getBuiltinAdapters(): BuildAdapter[] {
   return [nodeAdapter, staticAdapter, serverlessAdapter]
 }
@@ -188,5 +326,32 @@ export function registerBuiltinAdapters(registry: AdapterRegistry): void {
   }
 }
 
-export type { BuildAdapter, BuildOptions, BuildResult, AdapterRegistry } from '@nexoc/types'
+export { nodeAdapter, buildNode, createNodeDevSession } from './node'
+export { staticAdapter, buildStatic } from './static'
+export { serverlessAdapter, buildServerless, discoverFunctions, SERVERLESS_TARGETS } from './serverless'
+export type { ServerlessTarget, ServerlessFunction } from './serverless'
+export { resolveBuildTargets, runBuildPlan, mergeBuildResults } from './plan'
+export type { ResolvedBuildTarget } from './plan'
+export { BuildCache, pruneBuildCache, DEFAULT_CACHE_DIR } from './cache'
+export type { BuildCacheOptions, PruneOptions, PruneResult } from './cache'
+export { createWatcher, createIgnoreMatcher, DEFAULT_WATCH_IGNORE } from './watch'
+export type { Watcher, WatcherOptions } from './watch'
+export { formatEsbuildMessage, readPackageJson, resolveOutDir, getDependencyExternals, ADAPTER_VERSION } from './utils'
+export type { PackageJson } from './utils'
+export type {
+  BuildAdapter,
+  BuildOptions,
+  BuildResult,
+  AdapterRegistry,
+  DevOptions,
+  DevChange,
+  DevSession,
+  DevServer,
+  BuildTarget,
+  BuildTargetResult,
+  BuildPolicy,
+  BuildPlanOptions,
+  BuildCacheConfig,
+  BuildCacheStatus,
+} from '@nexoc/types'
 
@@ -0,0 +1,132 @@
+import { spawn } from 'node:child_process'
+import type { ChildProcess } from 'node:child_process'
+import { rm } from 'node:fs/promises'
+import path from 'node:path'
+import { build } from 'esbuild'
+import type { BuildAdapter, BuildOptions, BuildResult, DevOptions, DevSession } from '@nexoc/types'
+import {
+  readPackageJson,
+  resolveOutDir,
+  getDependencyExternals,
+  findEntry,
+  formatEsbuildMessage,
+  toFailedResult,
+  ADAPTER_VERSION,
+} from './utils'
+
+const NODE_ENTRY_CANDIDATES = [
+  'src/index.ts',
+  'src/main.ts',
+  'src/index.js',
+  'src/main.js',
+  'index.ts',
+  'index.js',
+]
+
+function resolveNodeEntries(options: BuildOptions, source?: string): string[] {
+  if (options.entry) {
+    return Array.isArray(options.entry) ? options.entry : [options.entry]
+  }
+
+  const entry = source || findEntry(options.rootDir, NODE_ENTRY_CANDIDATES)
+  if (!entry) {
+    throw new Error(
+      `No entry point found in "${options.rootDir}". Set "entry" or add one of: ${NODE_ENTRY_CANDIDATES.join(', ')}`
+    )
+  }
+  return [entry]
+}
+
+function outputExtension(format: 'esm' | 'cjs', packageType?: string): string {
+  if (format === 'esm') return packageType === 'module' ? '.js' : '.mjs'
+  return packageType === 'module' ? '.cjs' : '.js'
+}
+
+export async function buildNode(options: BuildOptions): Promise<BuildResult> {
+  const pkg = readPackageJson(options.rootDir)
+  const format = options.format || (pkg.type === 'module' ? 'esm' : 'cjs')
+
+  try {
+    const result = await build({
+      absWorkingDir: options.rootDir,
+      entryPoints: resolveNodeEntries(options, pkg.source),
+      outdir: resolveOutDir(options),
+      outExtension: { '.js': outputExtension(format, pkg.type) },
+      bundle: true,
+      platform: 'node',
+      target: 'node18',
+      format,
+      sourcemap: options.sourcemap ?? true,
+      minify: options.minify ?? Boolean(options.production),
+      external: getDependencyExternals(pkg),
+      metafile: true,
+      logLevel: 'silent',
+    })
+
+    return {
+      success: true,
+      outputs: Object.keys(result.metafile.outputs).map(file => path.resolve(options.rootDir, file)),
+      duration: 0,
+      warnings: result.warnings.map(message => formatEsbuildMessage(message, options.rootDir)),
+    }
+  } catch (error) {
+    return toFailedResult(error, options.rootDir)
+  }
+}
+
+const STOP_TIMEOUT = 5000
+
+async function stopProcess(child: ChildProcess): Promise<void> {
+  if (child.exitCode !== null || child.signalCode !== null) return
+
+  const exited = new Promise<void>(resolve => child.once('exit', () => resolve()))
+  const timer = setTimeout(() => child.kill('SIGKILL'), STOP_TIMEOUT)
+  child.kill('SIGTERM')
+  await exited
+  clearTimeout(timer)
+}
+
+/**
+ * Runs the first JavaScript output of each successful build, stopping the
+ * previous process before the new one starts.
+ */
+export function createNodeDevSession(options: DevOptions): DevSession {
+  let child: ChildProcess | undefined
+
+  const stop = async () => {
+    const current = child
+    child = undefined
+    if (current) await stopProcess(current)
+  }
+
+  return {
+    async update(result) {
+      const entry = result.outputs.find(file => /\.[cm]?js$/.test(file))
+      await stop()
+      if (!entry) return
+
+      child = spawn(process.execPath, ['--enable-source-maps', entry], {
+        cwd: options.rootDir,
+        stdio: 'inherit',
+      })
+    },
+    close: stop,
+  }
+}
+
+export const nodeAdapter: BuildAdapter = {
+  name: 'node',
+  version: ADAPTER_VERSION,
+  description: 'Node.js build adapter',
+  targets: ['node'],
+
+  build: buildNode,
+
+  async dev(options: DevOptions): Promise<DevSession> {
+    return createNodeDevSession(options)
+  },
+
+  async clean(options: BuildOptions): Promise<void> {
+    await rm(resolveOutDir(options), { recursive: true, force: true })
+  },
+}
@@ -0,0 +1,165 @@
+import path from 'node:path'
+import type {
+  BuildOptions,
+  BuildResult,
+  BuildTarget,
+  BuildTargetResult,
+  BuildPlanOptions,
+} from '@nexoc/types'
+
+export interface ResolvedBuildTarget {
+  name: string
+  adapter: string
+  dependsOn: string[]
+  options: BuildOptions
+}
+
+export function resolveBuildTargets(targets: BuildTarget[], base: BuildOptions): ResolvedBuildTarget[] {
+  if (targets.length === 0) {
+    throw new Error('Build plan has no targets')
+  }
+
+  const byName = new Map<string, ResolvedBuildTarget>()
+  for (const target of targets) {
+    const name = target.name || target.adapter
+    if (byName.has(name)) {
+      throw new Error(`Build target "${name}" is declared more than once. Give each target a unique "name"`)
+    }
+
+    // A single target keeps the shared outDir; several targets get one each
+    const outDir = target.options?.outDir
+      || (targets.length === 1 ? base.outDir : path.join(base.outDir, name))
+
+    byName.set(name, {
+      name,
+      adapter: target.adapter,
+      dependsOn: target.dependsOn || [],
+      options: { ...base, ...target.options, outDir },
+    })
+  }
+
+  const visited = new Set<string>()
+  const visiting: string[] = []
+
+  const visit = (target: ResolvedBuildTarget): void => {
+    if (visited.has(target.name)) return
+
+    const cycleStart = visiting.indexOf(target.name)
+    if (cycleStart !== -1) {
+      const cycle = [...visiting.slice(cycleStart), target.name]
+      throw new Error(`Circular build target dependency: ${cycle.join(' -> ')}`)
+    }
+
+    visiting.push(target.name)
+    for (const dependency of target.dependsOn) {
+      const next = byName.get(dependency)
+      if (!next) {
+        throw new Error(`Build target "${target.name}" depends on unknown target "${dependency}"`)
+      }
+      visit(next)
+    }
+    visiting.pop()
+    visited.add(target.name)
+  }
+
+  byName.forEach(visit)
+  return [...byName.values()]
+}
+
+function skippedResult(target: ResolvedBuildTarget, reason: string): BuildTargetResult {
+  return {
+    target: target.name,
+    adapter: target.adapter,
+    outDir: target.options.outDir,
+    success: false,
+    skipped: true,
+    outputs: [],
+    duration: 0,
+    errors: [reason],
+  }
+}
+
+export function mergeBuildResults(results: BuildTargetResult[], duration: number): BuildResult {
+  const prefix = (result: BuildTargetResult, messages?: string[]) =>
+    (messages || []).map(message => `[${result.target}] ${message}`)
+
+  return {
+    success: results.every(result => result.success),
+    outputs: results.flatMap(result => result.outputs),
+    duration,
+    errors: results.flatMap(result => prefix(result, result.errors)),
+    warnings: results.flatMap(result => prefix(result, result.warnings)),
+    targets: results,
+  }
+}
+
+/**
+ * Runs each target as soon as the targets it depends on have succeeded.
+ * Dependents receive the outputs of their dependencies in `options.inputs`.
+ *
+ * With the `fail-fast` policy no new target starts after a failure; with
+ * `best-effort` only the dependents of a failed target are skipped.
+ */
+export async function runBuildPlan(
+  targets: ResolvedBuildTarget[],
+  run: (target: ResolvedBuildTarget) => Promise<BuildResult>,
+  options: BuildPlanOptions = {}
+): Promise<BuildResult> {
+  const policy = options.policy || 'fail-fast'
+  const startTime = Date.now()
+  const results = new Map<string, BuildTargetResult>()
+  const running = new Map<string, Promise<void>>()
+  let failed = false
+
+  const start = (target: ResolvedBuildTarget): Promise<void> => {
+    const inputs: Record<string, string[]> = {}
+    for (const dependency of target.dependsOn) {
+      inputs[dependency] = results.get(dependency)!.outputs
+    }
+
+    return run({ ...target, options: { ...target.options, inputs } }).catch((error: Error): BuildResult => ({
+      success: false,
+      outputs: [],
+      duration: 0,
+      errors: [error.message],
+    })).then((result) => {
+      results.set(target.name, {
+        ...result,
+        target: target.name,
+        adapter: target.adapter,
+        outDir: target.options.outDir,
+      })
+      if (!result.success) failed = true
+    })
+  }
+
+  while (results.size < targets.length) {
+    for (const target of targets) {
+      if (results.has(target.name) || running.has(target.name)) continue
+
+      const failedDependency = target.dependsOn.find(dependency => results.get(dependency)?.success === false)
+      if (failedDependency) {
+        results.set(target.name, skippedResult(target, `Skipped because "${failedDependency}" failed`))
+        continue
+      }
+      if (failed && policy === 'fail-fast') {
+        if (running.size === 0) {
+          results.set(target.name, skippedResult(target, 'Skipped after an earlier target failed'))
+        }
+        continue
+      }
+      if (target.dependsOn.every(dependency => results.get(dependency)?.success)) {
+        running.set(target.name, start(target).finally(() => running.delete(target.name)))
+      }
+    }
+
+    if (running.size > 0) {
+      await Promise.race(running.values())
+    }
+  }
+
+  return mergeBuildResults(
+    targets.map(target => results.get(target.name)!),
+    Date.now() - startTime
+  )
+}
@@ -0,0 +1,363 @@
+import { existsSync } from 'node:fs'
+import { mkdir, rm, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { build } from 'esbuild'
+import type { Message } from 'esbuild'
+import type { BuildAdapter, BuildOptions, BuildResult } from '@nexoc/types'
+import { readPackageJson, resolveOutDir, listFiles, formatEsbuildMessage, toFailedResult, ADAPTER_VERSION } from './utils'
+
+export type ServerlessTarget = 'vercel' | 'netlify' | 'cloudflare'
+
+export const SERVERLESS_TARGETS: ServerlessTarget[] = ['vercel', 'netlify', 'cloudflare']
+
+const FUNCTION_DIRS = ['api', 'functions', 'src/functions']
+const FUNCTION_EXTENSIONS = ['.ts', '.mts', '.js', '.mjs']
+const ROUTE_PREFIX = '/api'
+const VERCEL_RUNTIME = 'nodejs20.x'
+
+// Lets bundled CommonJS dependencies keep calling require() from an ESM output
+const NODE_REQUIRE_BANNER = "import { createRequire as __createRequire } from 'node:module';\nconst require = __createRequire(import.meta.url);"
+
+export interface ServerlessFunction {
+  /** Absolute path of the source file */
+  entry: string
+  /** Route relative to the functions dir, e.g. `users/[id]` */
+  route: string
+  /** Public URL path, e.g. `/api/users/[id]` */
+  path: string
+  /** Flat name usable as a file name on every platform, e.g. `users-id` */
+  name: string
+}
+
+interface Emitted {
+  files: string[]
+  warnings: Message[]
+}
+
+function toPosix(file: string): string {
+  return file.split(path.sep).join('/')
+}
+
+function isFunctionFile(file: string): boolean {
+  const base = path.basename(file)
+  return FUNCTION_EXTENSIONS.includes(path.extname(file))
+    && !base.startsWith('_')
+    && !base.endsWith('.d.ts')
+    && !/\.(test|spec)\.\w+$/.test(base)
+}
+
+function toFunction(entry: string, baseDir: string): ServerlessFunction {
+  const withoutExt = toPosix(path.relative(baseDir, entry)).replace(/\.\w+$/, '')
+  const route = withoutExt === 'index' ? 'index' : withoutExt.replace(/\/index$/, '')
+  const name = route.replace(/\[(?:\.\.\.)?([^\]]+)\]/g, '$1').replace(/[^\w-]+/g, '-')
+
+  return {
+    entry,
+    route,
+    path: route === 'index' ? ROUTE_PREFIX : `${ROUTE_PREFIX}/${route}`,
+    name,
+  }
+}
+
+export async function discoverFunctions(options: BuildOptions): Promise<ServerlessFunction[]> {
+  if (options.entry) {
+    const entries = Array.isArray(options.entry) ? options.entry : [options.entry]
+    return entries.map((entry) => {
+      const file = path.resolve(options.rootDir, entry)
+      return toFunction(file, path.dirname(file))
+    })
+  }
+
+  const dir = FUNCTION_DIRS
+    .map(candidate => path.join(options.rootDir, candidate))
+    .find(candidate => existsSync(candidate))
+
+  if (!dir) {
+    throw new Error(
+      `No functions directory found in "${options.rootDir}". Add one of: ${FUNCTION_DIRS.join(', ')} or set "entry"`
+    )
+  }
+
+  const functions = (await listFiles(dir))
+    .filter(isFunctionFile)
+    .sort()
+    .map(file => toFunction(file, dir))
+
+  if (functions.length === 0) {
+    throw new Error(`No functions found in "${path.relative(options.rootDir, dir)}"`)
+  }
+
+  const seen = new Map<string, string>()
+  for (const fn of functions) {
+    const existing = seen.get(fn.name)
+    if (existing) {
+      throw new Error(`Functions "${existing}" and "${toPosix(path.relative(options.rootDir, fn.entry))}" resolve to the same name "${fn.name}"`)
+    }
+    seen.set(fn.name, toPosix(path.relative(options.rootDir, fn.entry)))
+  }
+
+  return functions
+}
+
+function resolveTarget(options: BuildOptions): ServerlessTarget {
+  const target = options.target || 'vercel'
+  if (!SERVERLESS_TARGETS.includes(target as ServerlessTarget)) {
+    throw new Error(`Unknown serverless target "${target}". Expected one of: ${SERVERLESS_TARGETS.join(', ')}`)
+  }
+  return target as ServerlessTarget
+}
+
+/**
+ * Converts a route such as `users/[id]` or `docs/[...slug]` into a path
+ * matcher and the names of its captured parameters.
+ */
+function toRoutePattern(fn: ServerlessFunction): { source: string; params: string[] } {
+  const params: string[] = []
+  const segments = fn.path.split('/').filter(Boolean).map((segment) => {
+    const catchAll = segment.match(/^\[\.\.\.([^\]]+)\]$/)
+    if (catchAll) {
+      params.push(catchAll[1]!)
+      return '(.+)'
+    }
+    const dynamic = segment.match(/^\[([^\]]+)\]$/)
+    if (dynamic) {
+      params.push(dynamic[1]!)
+      return '([^/]+)'
+    }
+    return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  })
+
+  return { source: `^/${segments.join('/')}$`, params }
+}
+
+async function bundleFunction(
+  options: BuildOptions,
+  fn: ServerlessFunction,
+  outfile: string,
+  target: ServerlessTarget
+): Promise<Emitted> {
+  const worker = target === 'cloudflare'
+  const result = await build({
+    absWorkingDir: options.rootDir,
+    entryPoints: [fn.entry],
+    outfile,
+    bundle: true,
+    format: 'esm',
+    platform: worker ? 'browser' : 'node',
+    target: worker ? 'es2022' : 'node18',
+    conditions: worker ? ['workerd', 'worker', 'browser'] : [],
+    external: worker ? ['node:*', 'cloudflare:*'] : [],
+    banner: { js: worker ? '' : NODE_REQUIRE_BANNER },
+    sourcemap: options.sourcemap ?? !options.production,
+    minify: options.minify ?? Boolean(options.production),
+    define: {
+      'process.env.NODE_ENV': JSON.stringify(options.production ? 'production' : 'development'),
+    },
+    metafile: true,
+    logLevel: 'silent',
+  })
+
+  return {
+    files: Object.keys(result.metafile.outputs).map(file => path.resolve(options.rootDir, file)),
+    warnings: result.warnings,
+  }
+}
+
+async function writeJson(file: string, data: unknown): Promise<string> {
+  await mkdir(path.dirname(file), { recursive: true })
+  await writeFile(file, `${JSON.stringify(data, null, 2)}\n`)
+  return file
+}
+
+/**
+ * Vercel Build Output API (v3): one `<path>.func` directory per function
+ * plus a `config.json` carrying the rewrites for dynamic segments.
+ */
+async function emitVercel(options: BuildOptions, functions: ServerlessFunction[]): Promise<Emitted> {
+  const outDir = resolveOutDir(options)
+  const files: string[] = []
+  const warnings: Message[] = []
+  const routes: Array<{ src: string; dest: string }> = []
+
+  for (const fn of functions) {
+    const funcDir = path.join(outDir, 'functions', `${fn.path.slice(1)}.func`)
+    const bundle = await bundleFunction(options, fn, path.join(funcDir, 'index.mjs'), 'vercel')
+    files.push(...bundle.files)
+    warnings.push(...bundle.warnings)
+
+    files.push(await writeJson(path.join(funcDir, '.vc-config.json'), {
+      runtime: VERCEL_RUNTIME,
+      handler: 'index.mjs',
+      launcherType: 'Nodejs',
+      shouldAddHelpers: true,
+    }))
+
+    const { source, params } = toRoutePattern(fn)
+    if (params.length > 0) {
+      const query = params.map((param, index) => `${param}=$${index + 1}`).join('&')
+      routes.push({ src: source, dest: `${fn.path}?${query}` })
+    }
+  }
+
+  files.push(await writeJson(path.join(outDir, 'config.json'), {
+    version: 3,
+    routes: routes.length > 0 ? [{ handle: 'filesystem' }, ...routes] : undefined,
+  }))
+
+  return { files, warnings }
+}
+
+/**
+ * Netlify: a flat functions directory of pre-bundled ESM files and a
+ * `netlify.toml` that maps each public path onto its function.
+ */
+async function emitNetlify(options: BuildOptions, functions: ServerlessFunction[]): Promise<Emitted> {
+  const outDir = resolveOutDir(options)
+  const files: string[] = []
+  const warnings: Message[] = []
+  const redirects: string[] = []
+
+  for (const fn of functions) {
+    const bundle = await bundleFunction(options, fn, path.join(outDir, 'functions', `${fn.name}.mjs`), 'netlify')
+    files.push(...bundle.files)
+    warnings.push(...bundle.warnings)
+
+    const from = fn.path.replace(/\[\.\.\.[^\]]+\]/g, '*').replace(/\[([^\]]+)\]/g, ':$1')
+    redirects.push(
+      '[[redirects]]',
+      `  from = "${from}"`,
+      `  to = "/.netlify/functions/${fn.name}"`,
+      '  status = 200',
+      ''
+    )
+  }
+
+  const toml = [
+    '[functions]',
+    '  directory = "functions"',
+    '  node_bundler = "none"',
+    '',
+    ...redirects,
+  ].join('\n')
+
+  const tomlPath = path.join(outDir, 'netlify.toml')
+  await writeFile(tomlPath, toml)
+  files.push(tomlPath)
+
+  return { files, warnings }
+}
+
+function renderWorkerRouter(functions: ServerlessFunction[]): string {
+  const imports = functions.map((fn, index) => `import handler${index} from './functions/${fn.name}.js'`)
+  const routes = functions.map((fn, index) => {
+    const { source, params } = toRoutePattern(fn)
+    return `  { pattern: new RegExp(${JSON.stringify(source)}), params: ${JSON.stringify(params)}, handler: handler${index} },`
+  })
+
+  return `${imports.join('\n')}
+
+const routes = [
+${routes.join('\n')}
+]
+
+export default {
+  async fetch(request, env, ctx) {
+    const { pathname } = new URL(request.url)
+
+    for (const route of routes) {
+      const match = pathname.match(route.pattern)
+      if (!match) continue
+
+      const params = Object.fromEntries(route.params.map((name, index) => [name, decodeURIComponent(match[index + 1])]))
+      const handler = route.handler
+      return typeof handler === 'function'
+        ? handler(request, env, ctx, params)
+        : handler.fetch(request, env, ctx, params)
+    }
+
+    return new Response('Not Found', { status: 404 })
+  },
+}
+`
+}
+
+/**
+ * Cloudflare Workers: each function is bundled on its own and a module
+ * worker (`_worker.js`) routes requests to them; `wrangler.toml` uploads
+ * the result without re-bundling.
+ */
+async function emitCloudflare(options: BuildOptions, functions: ServerlessFunction[]): Promise<Emitted> {
+  const outDir = resolveOutDir(options)
+  const files: string[] = []
+  const warnings: Message[] = []
+
+  for (const fn of functions) {
+    const bundle = await bundleFunction(options, fn, path.join(outDir, 'functions', `${fn.name}.js`), 'cloudflare')
+    files.push(...bundle.files)
+    warnings.push(...bundle.warnings)
+  }
+
+  const workerPath = path.join(outDir, '_worker.js')
+  await writeFile(workerPath, renderWorkerRouter(functions))
+  files.push(workerPath)
+
+  const pkg = readPackageJson(options.rootDir)
+  const name = (pkg.name || path.basename(options.rootDir)).replace(/^@[^/]+\//, '').replace(/[^a-z0-9-]+/gi, '-').toLowerCase()
+  const wrangler = [
+    `name = "${name}"`,
+    'main = "_worker.js"',
+    `compatibility_date = "${new Date().toISOString().slice(0, 10)}"`,
+    'no_bundle = true',
+    '',
+    '[[rules]]',
+    '  type = "ESModule"',
+    '  globs = ["functions/*.js"]',
+    '',
+  ].join('\n')
+
+  const wranglerPath = path.join(outDir, 'wrangler.toml')
+  await writeFile(wranglerPath, wrangler)
+  files.push(wranglerPath)
+
+  return { files, warnings }
+}
+
+const EMITTERS: Record<ServerlessTarget, (options: BuildOptions, functions: ServerlessFunction[]) => Promise<Emitted>> = {
+  vercel: emitVercel,
+  netlify: emitNetlify,
+  cloudflare: emitCloudflare,
+}
+
+export async function buildServerless(options: BuildOptions): Promise<BuildResult> {
+  try {
+    const target = resolveTarget(options)
+    const functions = await discoverFunctions(options)
+
+    await mkdir(resolveOutDir(options), { recursive: true })
+    const emitted = await EMITTERS[target](options, functions)
+
+    return {
+      success: true,
+      outputs: [...new Set(emitted.files)].sort(),
+      duration: 0,
+      warnings: emitted.warnings.map(message => formatEsbuildMessage(message, options.rootDir)),
+    }
+  } catch (error) {
+    return toFailedResult(error, options.rootDir)
+  }
+}
+
+export const serverlessAdapter: BuildAdapter = {
+  name: 'serverless',
+  version: ADAPTER_VERSION,
+  description: 'Serverless functions build adapter',
+  targets: SERVERLESS_TARGETS,
+
+  build: buildServerless,
+
+  async dev(_options: BuildOptions): Promise<void> {},
+
+  async clean(options: BuildOptions): Promise<void> {
+    await rm(resolveOutDir(options), { recursive: true, force: true })
+  },
+}
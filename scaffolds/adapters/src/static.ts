@@ -0,0 +1,285 @@
+import { existsSync } from 'node:fs'
+import { cp, mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { build } from 'esbuild'
+import type { Metafile, Message, Loader } from 'esbuild'
+import type { BuildAdapter, BuildOptions, BuildResult } from '@nexoc/types'
+import { resolveOutDir, formatEsbuildMessage, toFailedResult, listFiles, ADAPTER_VERSION } from './utils'
+
+const PUBLIC_DIR = 'public'
+const ASSETS_DIR = 'assets'
+const MANIFEST_FILE = 'manifest.json'
+
+const ASSET_LOADERS: Record<string, Loader> = {
+  '.png': 'file',
+  '.jpg': 'file',
+  '.jpeg': 'file',
+  '.gif': 'file',
+  '.svg': 'file',
+  '.webp': 'file',
+  '.avif': 'file',
+  '.woff': 'file',
+  '.woff2': 'file',
+  '.ttf': 'file',
+  '.eot': 'file',
+}
+
+interface HtmlReference {
+  tag: string
+  attribute: 'src' | 'href'
+  value: string
+  file: string
+  module: boolean
+}
+
+interface HtmlEntry {
+  file: string
+  html: string
+  references: HtmlReference[]
+}
+
+const TAG_PATTERN = /<(script|link)\b[^>]*>/gi
+const ATTRIBUTE_PATTERN = /([\w-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  const body = tag.replace(/^<\w+/, '').replace(/\/?>$/, '')
+
+  for (const match of body.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1]!.toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? ''
+  }
+
+  return attributes
+}
+
+function isLocalUrl(url: string): boolean {
+  return !/^([a-z]+:)?\/\//i.test(url) && !url.startsWith('data:')
+}
+
+function resolveReference(url: string, htmlFile: string, rootDir: string): string {
+  const clean = url.split(/[?#]/)[0]!
+  return clean.startsWith('/')
+    ? path.join(rootDir, clean)
+    : path.resolve(path.dirname(htmlFile), clean)
+}
+
+async function parseHtmlEntry(file: string, rootDir: string): Promise<HtmlEntry> {
+  const html = await readFile(file, 'utf-8')
+  const references: HtmlReference[] = []
+
+  for (const match of html.matchAll(TAG_PATTERN)) {
+    const tag = match[0]
+    const attributes = parseAttributes(tag)
+    const isScript = match[1]!.toLowerCase() === 'script'
+    const attribute = isScript ? 'src' : 'href'
+    const value = attributes[attribute]
+
+    if (!value || !isLocalUrl(value)) continue
+    if (!isScript && attributes.rel?.toLowerCase() !== 'stylesheet') continue
+
+    const target = resolveReference(value, file, rootDir)
+    if (!existsSync(target)) {
+      throw new Error(`${path.relative(rootDir, file)}: referenced file "${value}" does not exist`)
+    }
+
+    references.push({
+      tag,
+      attribute,
+      value,
+      file: target,
+      module: isScript && attributes.type === 'module',
+    })
+  }
+
+  return { file, html, references }
+}
+
+async function findHtmlEntries(options: BuildOptions): Promise<string[]> {
+  if (options.entry) {
+    const entries = Array.isArray(options.entry) ? options.entry : [options.entry]
+    return entries.map(entry => path.resolve(options.rootDir, entry))
+  }
+
+  const files = await readdir(options.rootDir)
+  const entries = files.filter(file => file.endsWith('.html')).map(file => path.join(options.rootDir, file))
+  if (entries.length === 0) {
+    throw new Error(`No HTML entry found in "${options.rootDir}". Add an index.html or set "entry"`)
+  }
+  return entries
+}
+
+async function bundleAssets(
+  options: BuildOptions,
+  entryPoints: string[],
+  format: 'esm' | 'iife'
+): Promise<{ metafile: Metafile; warnings: Message[] }> {
+  if (entryPoints.length === 0) {
+    return { metafile: { inputs: {}, outputs: {} }, warnings: [] }
+  }
+
+  const result = await build({
+    absWorkingDir: options.rootDir,
+    entryPoints,
+    outdir: resolveOutDir(options),
+    entryNames: `${ASSETS_DIR}/[name]-[hash]`,
+    chunkNames: `${ASSETS_DIR}/chunk-[hash]`,
+    assetNames: `${ASSETS_DIR}/[name]-[hash]`,
+    bundle: true,
+    splitting: format === 'esm',
+    platform: 'browser',
+    format,
+    sourcemap: options.sourcemap ?? !options.production,
+    minify: options.minify ?? Boolean(options.production),
+    loader: ASSET_LOADERS,
+    define: {
+      'process.env.NODE_ENV': JSON.stringify(options.production ? 'production' : 'development'),
+    },
+    metafile: true,
+    logLevel: 'silent',
+  })
+
+  return { metafile: result.metafile, warnings: result.warnings }
+}
+
+function mapEntryOutputs(metafile: Metafile, rootDir: string): Map<string, { js?: string; css?: string }> {
+  const entries = new Map<string, { js?: string; css?: string }>()
+
+  for (const [output, meta] of Object.entries(metafile.outputs)) {
+    if (!meta.entryPoint) continue
+
+    const source = path.resolve(rootDir, meta.entryPoint)
+    const outputPath = path.resolve(rootDir, output)
+    const entry = entries.get(source) || {}
+
+    if (output.endsWith('.css')) {
+      entry.css = outputPath
+    } else {
+      entry.js = outputPath
+      if (meta.cssBundle) entry.css = path.resolve(rootDir, meta.cssBundle)
+    }
+    entries.set(source, entry)
+  }
+
+  return entries
+}
+
+function toUrl(from: string, to: string): string {
+  const relative = path.relative(path.dirname(from), to).split(path.sep).join('/')
+  return relative.startsWith('.') ? relative : `./${relative}`
+}
+
+function rewriteHtml(
+  entry: HtmlEntry,
+  htmlOutput: string,
+  outputs: Map<string, { js?: string; css?: string }>
+): string {
+  let html = entry.html
+  const injectedStyles: string[] = []
+
+  for (const reference of entry.references) {
+    const output = outputs.get(reference.file)
+    const target = reference.attribute === 'href' ? output?.css : output?.js
+    if (!target) continue
+
+    const quoted = new RegExp(`(${reference.attribute}\\s*=\\s*)(["']?)${reference.value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\2`)
+    html = html.replace(reference.tag, reference.tag.replace(quoted, `$1$2${toUrl(htmlOutput, target)}$2`))
+
+    if (reference.attribute === 'src' && output?.css) {
+      injectedStyles.push(`<link rel="stylesheet" href="${toUrl(htmlOutput, output.css)}">`)
+    }
+  }
+
+  if (injectedStyles.length > 0) {
+    const headClose = /([ \t]*)<\/head>/i
+    html = headClose.test(html)
+      ? html.replace(headClose, (_, indent: string) =>
+          `${injectedStyles.map(style => `${indent}  ${style}\n`).join('')}${indent}</head>`)
+      : `${injectedStyles.join('\n')}\n${html}`
+  }
+
+  return html
+}
+
+export async function buildStatic(options: BuildOptions): Promise<BuildResult> {
+  const outDir = resolveOutDir(options)
+
+  try {
+    const entries = await Promise.all(
+      (await findHtmlEntries(options)).map(file => parseHtmlEntry(file, options.rootDir))
+    )
+
+    const references = entries.flatMap(entry => entry.references)
+    const moduleEntries = [...new Set(references.filter(ref => ref.module).map(ref => ref.file))]
+    const classicEntries = [...new Set(references.filter(ref => !ref.module).map(ref => ref.file))]
+      .filter(file => !moduleEntries.includes(file))
+
+    await mkdir(outDir, { recursive: true })
+
+    const modules = await bundleAssets(options, moduleEntries, 'esm')
+    const classic = await bundleAssets(options, classicEntries, 'iife')
+    const outputs = new Map([
+      ...mapEntryOutputs(modules.metafile, options.rootDir),
+      ...mapEntryOutputs(classic.metafile, options.rootDir),
+    ])
+
+    const manifest: Record<string, string> = {}
+    const emitted = new Set<string>([
+      ...Object.keys(modules.metafile.outputs),
+      ...Object.keys(classic.metafile.outputs),
+    ].map(file => path.resolve(options.rootDir, file)))
+
+    for (const [source, output] of outputs) {
+      const key = path.relative(options.rootDir, source).split(path.sep).join('/')
+      if (output.js) manifest[key] = path.relative(outDir, output.js).split(path.sep).join('/')
+      if (output.css) manifest[output.js ? `${key}.css` : key] = path.relative(outDir, output.css).split(path.sep).join('/')
+    }
+
+    for (const entry of entries) {
+      const relative = path.relative(options.rootDir, entry.file)
+      const htmlOutput = path.join(outDir, relative)
+      await mkdir(path.dirname(htmlOutput), { recursive: true })
+      await writeFile(htmlOutput, rewriteHtml(entry, htmlOutput, outputs))
+      manifest[relative.split(path.sep).join('/')] = relative.split(path.sep).join('/')
+      emitted.add(htmlOutput)
+    }
+
+    const publicDir = path.join(options.rootDir, PUBLIC_DIR)
+    if (existsSync(publicDir)) {
+      await cp(publicDir, outDir, { recursive: true })
+      for (const file of await listFiles(publicDir)) {
+        const relative = path.relative(publicDir, file)
+        manifest[`${PUBLIC_DIR}/${relative.split(path.sep).join('/')}`] = relative.split(path.sep).join('/')
+        emitted.add(path.join(outDir, relative))
+      }
+    }
+
+    const manifestPath = path.join(outDir, MANIFEST_FILE)
+    await writeFile(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`)
+    emitted.add(manifestPath)
+
+    return {
+      success: true,
+      outputs: [...emitted].sort(),
+      duration: 0,
+      warnings: [...modules.warnings, ...classic.warnings]
+        .map(message => formatEsbuildMessage(message, options.rootDir)),
+    }
+  } catch (error) {
+    return toFailedResult(error, options.rootDir)
+  }
+}
+
+export const staticAdapter: BuildAdapter = {
+  name: 'static',
+  version: ADAPTER_VERSION,
+  description: 'Static site build adapter',
+  targets: ['static', 'browser'],
+
+  build: buildStatic,
+
+  async dev(_options: BuildOptions): Promise<void> {},
+
+  async clean(options: BuildOptions): Promise<void> {
+    await rm(resolveOutDir(options), { recursive: true, force: true })
+  },
+}
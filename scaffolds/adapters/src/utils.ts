@@ -0,0 +1,108 @@
+import { existsSync, readFileSync } from 'node:fs'
+import { readdir } from 'node:fs/promises'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { version as esbuildVersion } from 'esbuild'
+import type { Message } from 'esbuild'
+import type { BuildOptions, BuildResult } from '@nexoc/types'
+
+export interface PackageJson {
+  name?: string
+  version?: string
+  type?: 'module' | 'commonjs'
+  main?: string
+  source?: string
+  dependencies?: Record<string, string>
+  peerDependencies?: Record<string, string>
+  optionalDependencies?: Record<string, string>
+}
+
+export function readPackageJson(rootDir: string): PackageJson {
+  const file = path.join(rootDir, 'package.json')
+  if (!existsSync(file)) return {}
+  return JSON.parse(readFileSync(file, 'utf-8')) as PackageJson
+}
+
+const packageDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..')
+
+/** Version of the built-in adapters, which changes with the bundled esbuild too */
+export const ADAPTER_VERSION = `${readPackageJson(packageDir).version || '0.0.0'}+esbuild.${esbuildVersion}`
+
+export function toPosixPath(file: string): string {
+  return file.split(path.sep).join('/')
+}
+
+export function resolveOutDir(options: BuildOptions): string {
+  return path.resolve(options.rootDir, options.outDir)
+}
+
+export function getDependencyExternals(pkg: PackageJson): string[] {
+  const names = new Set([
+    ...Object.keys(pkg.dependencies || {}),
+    ...Object.keys(pkg.peerDependencies || {}),
+    ...Object.keys(pkg.optionalDependencies || {}),
+  ])
+  return [...names].flatMap(name => [name, `${name}/*`])
+}
+
+export async function listFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true, recursive: true })
+  return entries
+    .filter(entry => entry.isFile())
+    .map(entry => path.join(entry.parentPath ?? entry.path, entry.name))
+}
+
+/**
+ * Lists the files under rootDir as sorted posix paths relative to it.
+ * Directories are checked as `dir/` and not descended into when ignored.
+ */
+export async function walkFiles(rootDir: string, isIgnored: (file: string) => boolean, dir = ''): Promise<string[]> {
+  const files: string[] = []
+  const entries = await readdir(path.join(rootDir, dir), { withFileTypes: true })
+
+  for (const entry of entries) {
+    const file = dir ? `${dir}/${entry.name}` : entry.name
+    if (entry.isDirectory()) {
+      if (!isIgnored(`${file}/`)) files.push(...await walkFiles(rootDir, isIgnored, file))
+    } else if (entry.isFile() && !isIgnored(file)) {
+      files.push(file)
+    }
+  }
+
+  return files.sort()
+}
+
+export function findEntry(rootDir: string, candidates: string[]): string | undefined {
+  return candidates.find(candidate => existsSync(path.join(rootDir, candidate)))
+}
+
+export function formatEsbuildMessage(message: Message, rootDir: string): string {
+  const { location } = message
+  if (!location) return message.text
+
+  const file = path.isAbsolute(location.file) ? path.relative(rootDir, location.file) : location.file
+  return `${file}:${location.line}:${location.column + 1}: ${message.text}`
+}
+
+export function isEsbuildFailure(error: unknown): error is { errors: Message[]; warnings: Message[] } {
+  return Boolean(error) && Array.isArray((error as { errors?: unknown }).errors)
+}
+
+export function toFailedResult(error: unknown, rootDir: string): BuildResult {
+  if (isEsbuildFailure(error)) {
+    return {
+      success: false,
+      outputs: [],
+      duration: 0,
+      errors: error.errors.map(message => formatEsbuildMessage(message, rootDir)),
+      warnings: error.warnings.map(message => formatEsbuildMessage(message, rootDir)),
+    }
+  }
+
+  return {
+    success: false,
+    outputs: [],
+    duration: 0,
+    errors: [(error as Error).message],
+  }
+}
@@ -0,0 +1,97 @@
+import { existsSync, watch } from 'node:fs'
+import type { FSWatcher } from 'node:fs'
+import path from 'node:path'
+import type { DevChange } from '@nexoc/types'
+
+export const DEFAULT_WATCH_IGNORE = [
+  '**/node_modules/**',
+  '**/.git/**',
+  '**/.nexoc/**',
+  '**/*.log',
+]
+
+export interface WatcherOptions {
+  ignore?: string[]
+  debounce?: number
+  onChange: (changes: DevChange[]) => void | Promise<void>
+  onError?: (error: Error) => void
+}
+
+export interface Watcher {
+  close: () => void
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/\/+$/, '')
+    .split('**/')
+    .map(part => part
+      .split('**')
+      .map(chunk => chunk
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '[^/]*')
+        .replace(/\?/g, '[^/]'))
+      .join('.*'))
+    .join('(?:.*/)?')
+  return new RegExp(`^${source}(/.*)?$`)
+}
+
+export function createIgnoreMatcher(patterns: string[]): (file: string) => boolean {
+  const expressions = patterns.map(globToRegExp)
+  return file => expressions.some(expression => expression.test(file))
+}
+
+/**
+ * Watches rootDir recursively and reports batches of changes once no new
+ * event arrived for `debounce` milliseconds.
+ */
+export function createWatcher(rootDir: string, options: WatcherOptions): Watcher {
+  const isIgnored = createIgnoreMatcher(options.ignore || DEFAULT_WATCH_IGNORE)
+  const debounce = options.debounce ?? 100
+  const pending = new Map<string, DevChange>()
+  const known = new Set<string>()
+  let timer: NodeJS.Timeout | undefined
+
+  const flush = () => {
+    timer = undefined
+    const changes = [...pending.values()]
+    pending.clear()
+    if (changes.length > 0) {
+      void Promise.resolve(options.onChange(changes)).catch(error => options.onError?.(error as Error))
+    }
+  }
+
+  const fsWatcher: FSWatcher = watch(rootDir, { recursive: true }, (event, filename) => {
+    if (!filename) return
+
+    const file = filename.toString().split(path.sep).join('/')
+    if (isIgnored(file)) return
+
+    const exists = existsSync(path.join(rootDir, file))
+    let type: DevChange['type'] = 'change'
+    if (!exists) {
+      type = 'unlink'
+      known.delete(file)
+    } else if (event === 'rename' && !known.has(file)) {
+      type = 'add'
+    }
+    if (exists) known.add(file)
+
+    // An add followed by edits within one batch is still an add
+    const previous = pending.get(file)
+    pending.set(file, { path: file, type: previous?.type === 'add' && type === 'change' ? 'add' : type })
+
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(flush, debounce)
+  })
+
+  fsWatcher.on('error', error => options.onError?.(error))
+
+  return {
+    close() {
+      if (timer) clearTimeout(timer)
+      pending.clear()
+      fsWatcher.close()
+    },
+  }
+}
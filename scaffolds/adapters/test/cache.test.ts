@@ -0,0 +1,104 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { BuildAdapter, BuildOptions, NexocHookable } from '@nexoc/types'
+import { BuildCache, createAdapterRegistry, createBuildManager } from '../src'
+
+const adapter: BuildAdapter = {
+  name: 'test',
+  version: '1.0.0',
+  build: async () => ({ success: true, outputs: [], duration: 0 }),
+}
+
+describe('BuildCache.computeKey', () => {
+  let rootDir: string
+  let options: BuildOptions
+
+  const write = (file: string, content: string) => {
+    mkdirSync(path.dirname(path.join(rootDir, file)), { recursive: true })
+    writeFileSync(path.join(rootDir, file), content)
+  }
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(path.join(tmpdir(), 'nexoc-cache-'))
+    options = { rootDir, outDir: 'dist' }
+    write('src/index.ts', 'export {}')
+  })
+
+  afterEach(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  it('is stable for unchanged inputs', async () => {
+    const cache = new BuildCache()
+
+    expect(await cache.computeKey(adapter, options)).toBe(await cache.computeKey(adapter, { ...options }))
+  })
+
+  it('changes with source files, options, config and the adapter version', async () => {
+    const key = await new BuildCache().computeKey(adapter, options)
+
+    expect(await new BuildCache().computeKey(adapter, { ...options, minify: true })).not.toBe(key)
+    expect(await new BuildCache({ config: { logLevel: 'debug' } }).computeKey(adapter, options)).not.toBe(key)
+    expect(await new BuildCache().computeKey({ ...adapter, version: '2.0.0' }, options)).not.toBe(key)
+
+    write('src/index.ts', 'export const changed = true')
+    expect(await new BuildCache().computeKey(adapter, options)).not.toBe(key)
+  })
+
+  it('ignores the output, the cache, node_modules and excluded directories', async () => {
+    const cache = new BuildCache()
+    const key = await cache.computeKey(adapter, options, ['other'])
+
+    write('dist/index.js', 'built')
+    write('.nexoc/cache/entry/entry.json', '{}')
+    write('node_modules/dep/index.js', 'dependency')
+    write('other/index.js', 'sibling target output')
+
+    expect(await cache.computeKey(adapter, options, ['other'])).toBe(key)
+  })
+
+  it('leaves out files matching the ignore option', async () => {
+    const cache = new BuildCache({ ignore: ['**/*.log'] })
+    const key = await cache.computeKey(adapter, options)
+
+    write('logs/build.log', 'noise')
+    expect(await cache.computeKey(adapter, options)).toBe(key)
+  })
+})
+
+describe('BuildManager with a cache', () => {
+  let rootDir: string
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(path.join(tmpdir(), 'nexoc-cache-'))
+    writeFileSync(path.join(rootDir, 'index.ts'), 'export {}')
+  })
+
+  afterEach(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  it('restores the outputs of an unchanged build instead of building again', async () => {
+    const output = path.join(rootDir, 'dist/index.js')
+    const build = vi.fn(async () => {
+      mkdirSync(path.dirname(output), { recursive: true })
+      writeFileSync(output, 'built')
+      return { success: true, outputs: [output], duration: 0 }
+    })
+    const registry = createAdapterRegistry()
+    registry.register({ ...adapter, build })
+    const manager = createBuildManager({ callHook: async () => {} } as unknown as NexocHookable, registry, 'test')
+    manager.setCache(new BuildCache())
+
+    const first = await manager.build({ rootDir, outDir: 'dist' })
+    rmSync(path.join(rootDir, 'dist'), { recursive: true })
+    const second = await manager.build({ rootDir, outDir: 'dist' })
+
+    expect(build).toHaveBeenCalledOnce()
+    expect(first.cache).toMatchObject({ hit: false })
+    expect(second.cache).toEqual({ hit: true, key: first.cache!.key })
+    expect(readFileSync(output, 'utf-8')).toBe('built')
+  })
+})
@@ -0,0 +1,46 @@
+import path from 'node:path'
+import { describe, expect, it, vi } from 'vitest'
+import type { BuildAdapter, NexocHookable } from '@nexoc/types'
+import { createAdapterRegistry, createBuildManager } from '../src'
+
+const hooks = { callHook: async () => {} } as unknown as NexocHookable
+const rootDir = path.resolve('/projects/app')
+
+function createManager() {
+  const adapter: BuildAdapter = {
+    name: 'test',
+    build: async () => ({ success: true, outputs: [], duration: 0 }),
+    clean: vi.fn(async () => {}),
+  }
+  const registry = createAdapterRegistry()
+  registry.register(adapter)
+  return { adapter, manager: createBuildManager(hooks, registry, 'test') }
+}
+
+describe('BuildManager.clean', () => {
+  it('cleans an outDir inside rootDir', async () => {
+    const { adapter, manager } = createManager()
+
+    await manager.clean({ rootDir, outDir: 'dist' })
+    expect(adapter.clean).toHaveBeenCalledWith({ rootDir, outDir: 'dist' })
+  })
+
+  it.each([
+    ['rootDir itself', '.'],
+    ['a parent of rootDir', '..'],
+    ['a sibling of rootDir', '../other'],
+    ['an absolute path outside rootDir', path.resolve('/tmp/dist')],
+  ])('refuses %s', async (_, outDir) => {
+    const { adapter, manager } = createManager()
+
+    await expect(manager.clean({ rootDir, outDir })).rejects.toThrow('Refusing to clean')
+    expect(adapter.clean).not.toHaveBeenCalled()
+  })
+
+  it('allows a directory whose name starts with two dots', async () => {
+    const { adapter, manager } = createManager()
+
+    await manager.clean({ rootDir, outDir: '..dist' })
+    expect(adapter.clean).toHaveBeenCalledOnce()
+  })
+})
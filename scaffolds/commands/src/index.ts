@@ -4,8 +4,18 @@ import type {
   CommandContext,
   CommandOptions,
   CommandArgs,
-  NexocInstance
+  CommandOptionDef,
+  CommandArgDef,
+  NexocInstance,
+  PipelinePlanFormat,
+  Prompter,
+  PromptQuestion
 } from '@nexoc/types'
+import { createPromptFn, isInteractiveTerminal } from './prompt'
+
+function toCamelCase(name: string): string {
+  return name.replace(/-([a-z])/g, (_, char: string) => char.toUpperCase())
+}
 
 export class CommandRegistry {
   private commands: Map<string, Command> = new Map()
@@ -86,11 +96,26 @@ export class CommandRegistry {
   }
 }
 
+export interface CommandExecutorOptions {
+  prompter?: Prompter
+  interactive?: boolean
+  /** Skip prompts and use default values, like `--yes` */
+  yes?: boolean
+  /** Passed to commands as `ctx.signal`, e.g. aborted by the CLI on SIGINT */
+  signal?: AbortSignal
+  /** Checkpoint run id passed to commands as `ctx.resume` */
+  resume?: string
+  /** Plan format passed to commands as `ctx.dryRun` */
+  dryRun?: PipelinePlanFormat
+}
+
 export class CommandExecutor {
   private nexoc: NexocInstance
+  private options: CommandExecutorOptions
 
-  constructor(nexoc: NexocInstance) {
+  constructor(nexoc: NexocInstance, options: CommandExecutorOptions = {}) {
     this.nexoc = nexoc
+    this.options = options
   }
 
   private parseArgs(
@@ -102,22 +127,18 @@ export class CommandExecutor {
     const args: Record<string, unknown> = {}
     const positionalArgs: string[] = []
 
-    if (optionsDef) {
-      for (const [key, def] of Object.entries(optionsDef)) {
-        if (def.default !== undefined) {
-          options[key] = def.default
-        }
-      }
-    }
-
     for (let i = 0; i < rawArgs.length; i++) {
       const arg = rawArgs[i]
 
       if (arg.startsWith('--')) {
-        const [key, value] = arg.slice(2).split('=')
+        const [flag, value] = arg.slice(2).split('=')
+        const key = optionsDef?.[flag] ? flag : toCamelCase(flag)
         const def = optionsDef?.[key]
+        const negated = !def && flag.startsWith('no-') ? toCamelCase(flag.slice(3)) : undefined
 
-        if (def) {
+        if (negated && optionsDef?.[negated]?.type === 'boolean') {
+          options[negated] = false
+        } else if (def) {
           if (def.type === 'boolean') {
             options[key] = value !== 'false'
           } else if (def.type === 'number') {
@@ -156,17 +177,35 @@ export class CommandExecutor {
           args[argNames[index]] = value
         }
       })
-
-      for (const [key, def] of Object.entries(argsDef)) {
-        if (args[key] === undefined && def.default !== undefined) {
-          args[key] = def.default
-        }
-      }
     }
 
     return { options, args }
   }
 
+  private async resolveMissing(
+    values: Record<string, unknown>,
+    defs: Record<string, CommandOptionDef | CommandArgDef> | undefined,
+    prompt: (question: PromptQuestion) => Promise<unknown>,
+    interactive: boolean
+  ): Promise<void> {
+    if (!defs) return
+
+    for (const [key, def] of Object.entries(defs)) {
+      if (values[key] !== undefined) continue
+
+      if (def.prompt && interactive) {
+        const value = await prompt({
+          name: key,
+          ...def.prompt,
+          initial: def.prompt.initial ?? def.default,
+        })
+        values[key] = 'type' in def && def.type === 'number' ? Number(value) : value
+      } else if (def.default !== undefined) {
+        values[key] = def.default
+      }
+    }
+  }
+
   private validate(
     options: Record<string, unknown>,
     args: Record<string, unknown>,
@@ -191,7 +230,20 @@ export class CommandExecutor {
   }
 
   async execute(command: Command, rawArgs: string[] = []): Promise<void> {
+    if (this.options.resume && !command.meta.supportsResume) {
+      throw new Error(`Command "${command.meta.name}" does not support --resume`)
+    }
+    if (this.options.dryRun && !command.meta.supportsDryRun) {
+      throw new Error(`Command "${command.meta.name}" does not support --dry-run`)
+    }
+
     const { options, args } = this.parseArgs(rawArgs, command.options, command.args)
+    const yes = this.options.yes || options.yes === true
+    const interactive = this.options.interactive ?? (!yes && isInteractiveTerminal())
+    const prompt = createPromptFn(this.options.prompter || this.nexoc.prompter, interactive)
+
+    await this.resolveMissing(args, command.args, prompt, interactive)
+    await this.resolveMissing(options, command.options, prompt, interactive)
     this.validate(options, args, command.options, command.args)
 
     const ctx: CommandContext = {
@@ -199,15 +251,24 @@ export class CommandExecutor {
       args,
       rawArgs,
       nexoc: this.nexoc,
+      logger: this.nexoc.logger.child(command.meta.name),
+      interactive,
+      prompt,
+      signal: this.options.signal ?? new AbortController().signal,
+      resume: this.options.resume,
+      dryRun: this.options.dryRun,
     }
 
     await this.nexoc.hooks.callHook('command:before', command.meta.name, { options, args })
 
+    // Cancellation is cooperative: commands watch ctx.signal, cleanup always runs
     try {
+      ctx.signal.throwIfAborted()
       if (command.setup) {
         await command.setup(ctx)
       }
 
+      ctx.signal.throwIfAborted()
       await command.run(ctx)
 
       await this.nexoc.hooks.callHook('command:after', command.meta.name, { options, args })
@@ -229,14 +290,18 @@ export function defineCommand<
   return command
 }
 
-export function toCittyCommand(command: Command, nexoc: NexocInstance): ReturnType<typeof cittyDefineCommand> {
-  const executor = new CommandExecutor(nexoc)
+export function toCittyCommand(
+  command: Command,
+  nexoc: NexocInstance,
+  executorOptions: CommandExecutorOptions = {}
+): ReturnType<typeof cittyDefineCommand> {
+  const executor = new CommandExecutor(nexoc, executorOptions)
 
   const subCommands = command.subCommands
     ? Object.fromEntries(
         Object.entries(command.subCommands).map(([name, subCmd]) => [
           name,
-          toCittyCommand(subCmd, nexoc)
+          toCittyCommand(subCmd, nexoc, executorOptions)
         ])
       )
     : undefined
@@ -250,32 +315,53 @@ export function toCittyCommand(command: Command, nexoc: NexocInstance): ReturnTy
     args: convertArgsToCitty(command.options, command.args) as any,
     subCommands,
     run: async ({ args: cittyArgs }) => {
+      const positionalNames = Object.keys(command.args || {})
+      const positionals = positionalNames
+        .filter(name => cittyArgs?.[name] !== undefined)
+        .map(name => String(cittyArgs[name]))
+
       const rawArgs = Object.entries(cittyArgs || {}).flatMap(([key, value]) => {
+        if (key === '_' || positionalNames.includes(key) || value === undefined) {
+          return []
+        }
         if (typeof value === 'boolean') {
-          return value ? [`--${key}`] : []
+          return [value ? `--${key}` : `--${key}=false`]
         }
         return [`--${key}`, String(value)]
       })
+      rawArgs.push(...positionals)
 
       await executor.execute(command, rawArgs)
     },
   })
 }
 
+// Defaults are applied by CommandExecutor so that prompts can fill in missing values first
+function describeWithDefault(def: CommandOptionDef | CommandArgDef): string {
+  return def.default !== undefined && def.default !== false
+    ? `${def.description} (default: ${String(def.default)})`
+    : def.description
+}
+
 function convertArgsToCitty(
   options?: CommandOptions,
   args?: CommandArgs
 ): Record<string, unknown> {
-  const result: Record<string, unknown> = {}
+  const result: Record<string, unknown> = {
+    yes: {
+      type: 'boolean',
+      description: 'Skip prompts and use default values',
+      alias: 'y',
+    },
+  }
 
   if (options) {
     for (const [key, def] of Object.entries(options)) {
       result[key] = {
         type: def.type,
-        description: def.description,
+        description: describeWithDefault(def),
         alias: def.alias,
-        default: def.default,
-        required: def.required,
+        required: def.required && !def.prompt,
       }
     }
   }
@@ -284,9 +370,8 @@ function convertArgsToCitty(
     for (const [key, def] of Object.entries(args)) {
       result[key] = {
         type: 'positional',
-        description: def.description,
-        default: def.default,
-        required: def.required,
+        description: describeWithDefault(def),
+        required: def.required && !def.prompt,
       }
     }
   }
@@ -294,6 +379,22 @@ function convertArgsToCitty(
   return result
 }
 
+export {
+  createTerminalPrompter,
+  createScriptedPrompter,
+  createPromptFn,
+  validatePromptValue,
+  isInteractiveTerminal,
+} from './prompt'
 export { runMain }
-export type { Command, CommandMeta, CommandOptions, CommandArgs, CommandContext } from '@nexoc/types'
+export type {
+  Command,
+  CommandMeta,
+  CommandOptions,
+  CommandArgs,
+  CommandContext,
+  PromptDef,
+  PromptQuestion,
+  Prompter,
+} from '@nexoc/types'
 
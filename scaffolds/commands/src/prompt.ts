@@ -0,0 +1,158 @@
+import { createInterface } from 'node:readline/promises'
+import type { PromptChoice, PromptQuestion, Prompter } from '@nexoc/types'
+
+function normalizeChoices(question: PromptQuestion): PromptChoice[] {
+  return (question.choices || []).map(choice =>
+    typeof choice === 'string' ? { value: choice } : choice
+  )
+}
+
+export function validatePromptValue(question: PromptQuestion, value: unknown): string | undefined {
+  const values = normalizeChoices(question).map(choice => choice.value)
+
+  if (question.type === 'select' && !values.includes(value as string)) {
+    return `Expected "${question.name}" to be one of: ${values.join(', ')}`
+  }
+
+  if (question.type === 'multiselect') {
+    if (!Array.isArray(value) || value.some(item => !values.includes(item))) {
+      return `Expected "${question.name}" to be a list of: ${values.join(', ')}`
+    }
+  }
+
+  if (question.type === 'confirm' && typeof value !== 'boolean') {
+    return `Expected "${question.name}" to be a boolean`
+  }
+
+  const result = question.validate?.(value) ?? true
+  return result === true ? undefined : result
+}
+
+function formatQuestion(question: PromptQuestion): string {
+  const lines: string[] = []
+  const choices = normalizeChoices(question)
+
+  choices.forEach((choice, index) => {
+    const hint = choice.hint ? ` - ${choice.hint}` : ''
+    lines.push(`  ${index + 1}) ${choice.label || choice.value}${hint}`)
+  })
+
+  let suffix: string
+  switch (question.type) {
+    case 'confirm':
+      suffix = question.initial === true ? '(Y/n)' : '(y/N)'
+      break
+    case 'multiselect':
+      suffix = '(comma-separated numbers)'
+      break
+    default:
+      suffix = question.initial !== undefined ? `(${String(question.initial)})` : ''
+  }
+
+  lines.push(`? ${question.message} ${suffix}`.trimEnd() + ' ')
+  return lines.join('\n')
+}
+
+function pickChoice(choices: PromptChoice[], input: string): string | undefined {
+  const index = Number(input)
+  if (Number.isInteger(index) && index >= 1 && index <= choices.length) {
+    return choices[index - 1]!.value
+  }
+  return choices.find(choice => choice.value === input)?.value
+}
+
+function parseAnswer(question: PromptQuestion, raw: string): unknown {
+  const input = raw.trim()
+  const choices = normalizeChoices(question)
+
+  if (!input) {
+    if (question.initial !== undefined) return question.initial
+    if (question.type === 'confirm') return false
+    if (question.type === 'multiselect') return []
+    return undefined
+  }
+
+  switch (question.type) {
+    case 'confirm':
+      if (/^y(es)?$/i.test(input)) return true
+      if (/^no?$/i.test(input)) return false
+      return undefined
+    case 'select':
+      return pickChoice(choices, input)
+    case 'multiselect':
+      return input.split(',').map(part => pickChoice(choices, part.trim()))
+    default:
+      return input
+  }
+}
+
+export function createTerminalPrompter(
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout
+): Prompter {
+  return {
+    async prompt(question) {
+      const rl = createInterface({ input, output })
+
+      try {
+        while (true) {
+          const raw = await rl.question(formatQuestion(question))
+          const value = parseAnswer(question, raw)
+          const error = value === undefined
+            ? raw.trim() ? `Invalid answer for "${question.name}"` : `A value is required for "${question.name}"`
+            : validatePromptValue(question, value)
+
+          if (!error) return value
+          output.write(`  ${error}\n`)
+        }
+      } finally {
+        rl.close()
+      }
+    },
+  }
+}
+
+export function createScriptedPrompter(answers: Record<string, unknown> | unknown[]): Prompter {
+  const queue = Array.isArray(answers) ? [...answers] : null
+
+  return {
+    async prompt(question) {
+      if (queue) {
+        if (queue.length === 0) {
+          throw new Error(`No scripted answer left for prompt "${question.name}"`)
+        }
+        return queue.shift()
+      }
+
+      if (!(question.name in answers)) {
+        throw new Error(`No scripted answer for prompt "${question.name}"`)
+      }
+      return (answers as Record<string, unknown>)[question.name]
+    },
+  }
+}
+
+export function isInteractiveTerminal(): boolean {
+  return Boolean(process.stdin.isTTY) && !process.env.CI
+}
+
+export function createPromptFn(
+  prompter: Prompter,
+  interactive: boolean
+): (question: PromptQuestion) => Promise<unknown> {
+  return async (question) => {
+    if (!interactive) {
+      if (question.initial === undefined) {
+        throw new Error(`Missing value for "${question.name}" (prompts are disabled in non-interactive mode)`)
+      }
+      return question.initial
+    }
+
+    const value = await prompter.prompt(question)
+    const error = validatePromptValue(question, value)
+    if (error) {
+      throw new Error(error)
+    }
+    return value
+  }
+}
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Command, CommandContext, NexocInstance } from '@nexoc/types'
+import { CommandExecutor, createScriptedPrompter } from '../src'
+import type { CommandExecutorOptions } from '../src'
+
+const nexoc = {
+  hooks: { callHook: async () => {} },
+  logger: { child: () => ({}) },
+} as unknown as NexocInstance
+
+const command: Command = {
+  meta: { name: 'init', description: 'Create a project' },
+  options: {
+    name: {
+      type: 'string',
+      description: 'Project name',
+      prompt: { type: 'text', message: 'Project name?' },
+    },
+    git: {
+      type: 'boolean',
+      description: 'Initialize git',
+      default: true,
+      prompt: { type: 'confirm', message: 'Initialize git?' },
+    },
+    port: {
+      type: 'number',
+      description: 'Dev server port',
+      default: 3000,
+    },
+  },
+  run: async () => {},
+}
+
+async function execute(
+  rawArgs: string[],
+  options: CommandExecutorOptions = {}
+): Promise<CommandContext> {
+  let context: CommandContext | undefined
+  const executor = new CommandExecutor(nexoc, options)
+  await executor.execute({ ...command, run: async ctx => { context = ctx } }, rawArgs)
+  return context!
+}
+
+describe('prompt resolution', () => {
+  it('asks for missing values', async () => {
+    const ctx = await execute([], {
+      interactive: true,
+      prompter: createScriptedPrompter({ name: 'demo', git: false }),
+    })
+
+    expect(ctx.options).toMatchObject({ name: 'demo', git: false, port: 3000 })
+  })
+
+  it('offers the default as the initial answer', async () => {
+    const prompter = { prompt: vi.fn(async () => true) }
+    await execute(['--name', 'demo'], { interactive: true, prompter })
+
+    expect(prompter.prompt).toHaveBeenCalledTimes(1)
+    expect(prompter.prompt).toHaveBeenCalledWith(expect.objectContaining({ name: 'git', initial: true }))
+  })
+
+  it('does not prompt for values given as flags', async () => {
+    const ctx = await execute(['--name=demo', '--git'], {
+      interactive: true,
+      prompter: createScriptedPrompter([]),
+    })
+
+    expect(ctx.options).toMatchObject({ name: 'demo', git: true })
+  })
+
+  it('uses defaults without prompting when not interactive', async () => {
+    const ctx = await execute(['--name', 'demo'], {
+      interactive: false,
+      prompter: createScriptedPrompter([]),
+    })
+
+    expect(ctx.options).toMatchObject({ name: 'demo', git: true, port: 3000 })
+  })
+
+  it('leaves values without a default unset when not interactive', async () => {
+    const ctx = await execute([], { interactive: false })
+
+    expect(ctx.options).not.toHaveProperty('name')
+  })
+
+  it('turns a boolean off with --no-x and --x=false', async () => {
+    const prompter = createScriptedPrompter([])
+
+    expect((await execute(['--name', 'demo', '--no-git'], { interactive: true, prompter })).options.git).toBe(false)
+    expect((await execute(['--name', 'demo', '--git=false'], { interactive: true, prompter })).options.git).toBe(false)
+  })
+
+  describe('--yes', () => {
+    const isTTY = process.stdin.isTTY
+
+    beforeEach(() => {
+      process.stdin.isTTY = true
+      vi.stubEnv('CI', '')
+    })
+
+    afterEach(() => {
+      process.stdin.isTTY = isTTY
+      vi.unstubAllEnvs()
+    })
+
+    it('prompts on an interactive terminal', async () => {
+      const ctx = await execute([], { prompter: createScriptedPrompter({ name: 'demo', git: false }) })
+
+      expect(ctx.interactive).toBe(true)
+      expect(ctx.options).toMatchObject({ name: 'demo', git: false })
+    })
+
+    it('skips prompts and uses defaults', async () => {
+      const ctx = await execute(['--yes', '--name', 'demo'], { prompter: createScriptedPrompter([]) })
+
+      expect(ctx.interactive).toBe(false)
+      expect(ctx.options).toMatchObject({ name: 'demo', git: true, port: 3000 })
+    })
+
+    it('skips prompts with the yes executor option', async () => {
+      const ctx = await execute(['--name', 'demo'], { yes: true, prompter: createScriptedPrompter([]) })
+
+      expect(ctx.interactive).toBe(false)
+      expect(ctx.options).toMatchObject({ name: 'demo', git: true })
+    })
+  })
+})
@@ -0,0 +1,268 @@
+import { existsSync, readFileSync } from 'node:fs'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { defu } from 'defu'
+import type { ConfigSource, NexocConfig, NexocUserConfig } from '@nexoc/types'
+
+export const CONFIG_FILES = [
+  'nexoc.config.ts',
+  'nexoc.config.mjs',
+  'nexoc.config.js',
+  'nexoc.config.json',
+]
+
+const ENV_PREFIX = 'NEXOC_'
+const RESERVED_ENV_KEYS = new Set(['NEXOC_ENV', 'NEXOC_CONFIG'])
+
+export interface LoadConfigOptions {
+  rootDir?: string
+  configFile?: string
+  envName?: string
+  env?: Record<string, string | undefined>
+  overrides?: Partial<NexocConfig>
+  defaults?: NexocConfig
+}
+
+export interface ResolvedConfig {
+  config: NexocConfig
+  envName: string
+  configFile?: string
+  packageFile?: string
+  sources: Record<string, ConfigSource>
+}
+
+interface ConfigLayer {
+  source: ConfigSource
+  baseDir: string
+  config: Record<string, unknown>
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object') return false
+  const proto = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
+}
+
+function findUp(startDir: string, predicate: (dir: string) => string | undefined): string | undefined {
+  let current = path.resolve(startDir)
+
+  while (true) {
+    const found = predicate(current)
+    if (found) return found
+
+    const parent = path.dirname(current)
+    if (parent === current) return undefined
+    current = parent
+  }
+}
+
+export function findConfigFile(startDir: string): string | undefined {
+  return findUp(startDir, dir =>
+    CONFIG_FILES.map(file => path.join(dir, file)).find(file => existsSync(file))
+  )
+}
+
+function readPackageConfig(file: string): Record<string, unknown> | undefined {
+  try {
+    const pkg = JSON.parse(readFileSync(file, 'utf-8')) as { nexoc?: unknown }
+    if (!isPlainObject(pkg.nexoc)) return undefined
+
+    // `nexoc.command` marks command packages and is not configuration
+    const { command: _command, ...config } = pkg.nexoc
+    return Object.keys(config).length > 0 ? config : undefined
+  } catch {
+    return undefined
+  }
+}
+
+export function findPackageConfig(startDir: string): { file: string; config: Record<string, unknown> } | undefined {
+  let result: { file: string; config: Record<string, unknown> } | undefined
+
+  findUp(startDir, dir => {
+    const file = path.join(dir, 'package.json')
+    const config = existsSync(file) ? readPackageConfig(file) : undefined
+    if (config) {
+      result = { file, config }
+      return file
+    }
+    return undefined
+  })
+
+  return result
+}
+
+async function importConfigFile(file: string): Promise<Record<string, unknown>> {
+  if (file.endsWith('.json')) {
+    return JSON.parse(readFileSync(file, 'utf-8'))
+  }
+
+  try {
+    const module = await import(pathToFileURL(file).href)
+    const config = module.default ?? module
+    return typeof config === 'function' ? await config() : config
+  } catch (error) {
+    throw new Error(`Failed to load config file "${file}": ${(error as Error).message}`)
+  }
+}
+
+function parseEnvValue(value: string): unknown {
+  if (value === 'true') return true
+  if (value === 'false') return false
+  if (value.trim() !== '' && !Number.isNaN(Number(value))) return Number(value)
+  return value
+}
+
+function envKeyToPath(key: string): string[] {
+  return key
+    .slice(ENV_PREFIX.length)
+    .split('__')
+    .map(part => part.toLowerCase().replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase()))
+}
+
+export function readEnvConfig(env: Record<string, string | undefined>): Record<string, unknown> {
+  const config: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(env)) {
+    if (!key.startsWith(ENV_PREFIX) || RESERVED_ENV_KEYS.has(key) || value === undefined) continue
+
+    const keyPath = envKeyToPath(key)
+    let target = config
+    for (const segment of keyPath.slice(0, -1)) {
+      if (!isPlainObject(target[segment])) {
+        target[segment] = {}
+      }
+      target = target[segment] as Record<string, unknown>
+    }
+    target[keyPath[keyPath.length - 1]!] = parseEnvValue(value)
+  }
+
+  return config
+}
+
+function splitEnvironments(
+  config: Record<string, unknown>,
+  envName: string
+): { base: Record<string, unknown>; override?: Record<string, unknown> } {
+  const base: Record<string, unknown> = {}
+  let override: Record<string, unknown> | undefined
+
+  for (const [key, value] of Object.entries(config)) {
+    if (!key.startsWith('$')) {
+      base[key] = value
+    } else if (key === `$${envName}` && isPlainObject(value)) {
+      override = value
+    }
+  }
+
+  return { base, override }
+}
+
+function fileLayers(
+  type: 'package' | 'file',
+  file: string,
+  config: Record<string, unknown>,
+  envName: string
+): ConfigLayer[] {
+  const { base, override } = splitEnvironments(config, envName)
+  const baseDir = path.dirname(file)
+  const layers: ConfigLayer[] = [{ source: { type, path: file }, baseDir, config: base }]
+
+  if (override) {
+    layers.push({ source: { type, path: file, environment: envName }, baseDir, config: override })
+  }
+
+  return layers
+}
+
+function collectSources(
+  config: Record<string, unknown>,
+  source: ConfigSource,
+  sources: Record<string, ConfigSource>,
+  prefix = ''
+): void {
+  for (const [key, value] of Object.entries(config)) {
+    if (value === undefined) continue
+    const keyPath = prefix ? `${prefix}.${key}` : key
+
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      collectSources(value, source, sources, keyPath)
+    } else {
+      sources[keyPath] = source
+    }
+  }
+}
+
+function normalizeLayer(layer: ConfigLayer): Record<string, unknown> {
+  const { rootDir } = layer.config
+  if (typeof rootDir === 'string' && !path.isAbsolute(rootDir)) {
+    return { ...layer.config, rootDir: path.resolve(layer.baseDir, rootDir) }
+  }
+  return layer.config
+}
+
+export async function loadNexocConfig(options: LoadConfigOptions = {}): Promise<ResolvedConfig> {
+  const env = options.env ?? process.env
+  const envName = options.envName || env.NEXOC_ENV || env.NODE_ENV || 'development'
+  const cwd = process.cwd()
+  const startDir = path.resolve(cwd, options.rootDir || options.overrides?.rootDir || env.NEXOC_ROOT_DIR || cwd)
+
+  const layers: ConfigLayer[] = []
+
+  if (options.defaults) {
+    layers.push({ source: { type: 'default' }, baseDir: cwd, config: { ...options.defaults } })
+  }
+
+  const packageConfig = findPackageConfig(startDir)
+  if (packageConfig) {
+    layers.push(...fileLayers('package', packageConfig.file, packageConfig.config, envName))
+  }
+
+  const explicitConfig = options.configFile || env.NEXOC_CONFIG
+  const configFile = explicitConfig ? path.resolve(cwd, explicitConfig) : findConfigFile(startDir)
+  if (configFile) {
+    if (!existsSync(configFile)) {
+      throw new Error(`Config file "${configFile}" does not exist`)
+    }
+    layers.push(...fileLayers('file', configFile, await importConfigFile(configFile), envName))
+  }
+
+  layers.push({ source: { type: 'env' }, baseDir: cwd, config: readEnvConfig(env) })
+
+  if (options.overrides) {
+    layers.push({ source: { type: 'cli' }, baseDir: cwd, config: { ...options.overrides } })
+  }
+
+  const sources: Record<string, ConfigSource> = {}
+  for (const layer of layers) {
+    collectSources(layer.config, layer.source, sources)
+  }
+
+  const config = defu(
+    {},
+    ...layers.map(normalizeLayer).reverse()
+  ) as NexocConfig
+
+  return {
+    config,
+    envName,
+    configFile,
+    packageFile: packageConfig?.file,
+    sources,
+  }
+}
+
+export function formatConfigSource(source: ConfigSource): string {
+  const location = source.path ? ` ${source.path}` : ''
+  const environment = source.environment ? ` ($${source.environment})` : ''
+  return `${source.type}${location}${environment}`
+}
+
+/** The section of an adapter or plugin, by name; undefined when it is not an object */
+export function getConfigSection(config: NexocConfig, name: string): Record<string, unknown> | undefined {
+  const section = (config as Record<string, unknown>)[name]
+  return section && typeof section === 'object' ? section as Record<string, unknown> : undefined
+}
+
+export function defineNexocConfig(config: NexocUserConfig): NexocUserConfig {
+  return config
+}
@@ -6,31 +6,58 @@ import type {
   Command,
 } from '@nexoc/types'
 import { createNexocHooks } from '@nexoc/hooks'
-import { CommandRegistry, CommandExecutor } from '@nexoc/commands'
+import { createLogger, attachHookLogger } from '@nexoc/logger'
+import { CommandRegistry, CommandExecutor, createTerminalPrompter } from '@nexoc/commands'
 import { createAdapterRegistry, registerBuiltinAdapters } from '@nexoc/adapters'
+import { createPhaseRegistry } from '@nexoc/lifecycle'
+import { loadNexocConfig } from './config'
+import type { LoadConfigOptions } from './config'
+import { validateNexocConfig } from './schema'
+import { PluginContainer, sortPlugins } from './plugins'
 
 const defaultConfig: NexocConfig = {
   rootDir: process.cwd(),
   logLevel: 'info',
+  logFormat: 'text',
   defaultAdapter: 'node',
   plugins: [],
 }
 
+/**
+ * Plugin installation is async, so the plugins in `userConfig.plugins` are
+ * installed by the first `runCommand` or `use` call. `loadNexoc`
+ * installs them before it resolves.
+ */
 export function createNexoc(userConfig: Partial<NexocConfig> = {}): NexocInstance {
   const config = defu(userConfig, defaultConfig) as NexocConfig
   const hooks = createNexocHooks()
   const commandRegistry = new CommandRegistry()
   const adapterRegistry = createAdapterRegistry()
+  const logger = createLogger({ level: config.logLevel, format: config.logFormat })
 
   registerBuiltinAdapters(adapterRegistry)
 
-  let executor: CommandExecutor | null = null
+  if (logger.level === 'debug') {
+    attachHookLogger(hooks, logger.child('hooks'))
+  }
+
+  let pluginContainer: PluginContainer
+  let configPlugins: Promise<void> | undefined
+  const installConfigPlugins = () => configPlugins ??= pluginContainer.installAll(config.plugins || [])
 
   const instance: NexocInstance = {
     config,
+    configSources: {},
     hooks,
     commands: commandRegistry.getCommandsMap(),
     adapters: adapterRegistry,
+    phases: createPhaseRegistry(),
+    logger,
+    prompter: createTerminalPrompter(),
+
+    get plugins() {
+      return pluginContainer.getPluginsMap()
+    },
 
     registerCommand(command: Command): void {
       commandRegistry.register(command)
@@ -42,30 +69,95 @@ export function createNexoc(userConfig: Partial<NexocConfig> = {}): NexocInstanc
         throw new Error(`Command "${name}" not found`)
       }
 
-      if (!executor) {
-        executor = new CommandExecutor(instance)
-      }
+      await installConfigPlugins()
 
-      await executor.execute(command, args)
+      // Commands do not define `-y`, so it would be dropped by the argument parser
+      const yes = args.includes('--yes') || args.includes('-y')
+      const executor = new CommandExecutor(instance, { yes })
+      await executor.execute(command, args.filter(arg => arg !== '--yes' && arg !== '-y'))
     },
 
     async use(plugin: NexocPlugin): Promise<void> {
-      await plugin.install(instance)
+      // Once started, a config plugin may be calling `use` from its install
+      if (!configPlugins) await installConfigPlugins()
+      await pluginContainer.installAll([plugin])
+    },
+
+    async close(): Promise<void> {
+      // Let a running installation finish so its plugins are disposed too
+      await configPlugins?.catch(() => undefined)
+      await pluginContainer.dispose()
     },
   }
 
+  pluginContainer = new PluginContainer(instance)
+
+  return instance
+}
+
+export async function loadNexoc(options: LoadConfigOptions = {}): Promise<NexocInstance> {
+  const resolved = await loadNexocConfig({ defaults: defaultConfig, ...options })
+  const instance = createNexoc(resolved.config)
+  instance.configSources = resolved.sources
+  await installPlugins(instance, instance.config.plugins || [])
+  // After the plugins, so the adapters they register are valid defaultAdapter values
+  try {
+    validateNexocConfig(instance)
+  } catch (error) {
+    await instance.close()
+    throw error
+  }
   return instance
 }
 
-export function defineNexocConfig(config: Partial<NexocConfig>): Partial<NexocConfig> {
-  return config
+export async function installPlugins(nexoc: NexocInstance, plugins: NexocPlugin[]): Promise<void> {
+  for (const plugin of sortPlugins(plugins, new Set(nexoc.plugins.keys()))) {
+    await nexoc.use(plugin)
+  }
 }
 
-export function definePlugin(plugin: NexocPlugin): NexocPlugin {
+export function definePlugin<TOptions = object>(
+  plugin: NexocPlugin<TOptions>
+): NexocPlugin<TOptions> {
   return plugin
 }
 
-export type { NexocConfig, NexocInstance, NexocPlugin } from '@nexoc/types'
+export type {
+  NexocConfig,
+  NexocUserConfig,
+  NexocConfigSections,
+  NexocInstance,
+  NexocPlugin,
+  ConfigSource,
+  ConfigSchema,
+  ConfigSchemaField,
+} from '@nexoc/types'
+
+export {
+  loadNexocConfig,
+  defineNexocConfig,
+  getConfigSection,
+  findConfigFile,
+  findPackageConfig,
+  readEnvConfig,
+  formatConfigSource,
+  CONFIG_FILES,
+} from './config'
+export type { LoadConfigOptions, ResolvedConfig } from './config'
+
+export { PluginContainer, sortPlugins, resolvePluginOptions } from './plugins'
+
+export {
+  ConfigValidationError,
+  validateConfig,
+  validateNexocConfig,
+  getNexocSchema,
+  createNexocSchema,
+  defineConfigSchema,
+  formatConfigIssues,
+  suggest,
+} from './schema'
+export type { ConfigIssue, ValidateConfigOptions, NexocSchemaOptions } from './schema'
 
 export {
   discoverCommands,
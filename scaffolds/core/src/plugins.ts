@@ -0,0 +1,133 @@
+import { defu } from 'defu'
+import type { NexocInstance, NexocPlugin } from '@nexoc/types'
+import { getConfigSection } from './config'
+
+const ENFORCE_ORDER = { pre: 0, normal: 1, post: 2 } as const
+
+function enforceRank(plugin: NexocPlugin): number {
+  return ENFORCE_ORDER[plugin.enforce || 'normal']
+}
+
+export function sortPlugins(plugins: NexocPlugin[], installed: Set<string> = new Set()): NexocPlugin[] {
+  const byName = new Map<string, NexocPlugin>()
+  for (const plugin of plugins) {
+    if (byName.has(plugin.name) && byName.get(plugin.name) !== plugin) {
+      throw new Error(`Plugin "${plugin.name}" is declared more than once`)
+    }
+    byName.set(plugin.name, plugin)
+  }
+
+  const ranked = [...byName.values()]
+    .map((plugin, index) => ({ plugin, index }))
+    .sort((a, b) => enforceRank(a.plugin) - enforceRank(b.plugin) || a.index - b.index)
+    .map(({ plugin }) => plugin)
+
+  const sorted: NexocPlugin[] = []
+  const visited = new Set<string>()
+  const visiting: string[] = []
+
+  const visit = (plugin: NexocPlugin): void => {
+    if (visited.has(plugin.name)) return
+
+    const cycleStart = visiting.indexOf(plugin.name)
+    if (cycleStart !== -1) {
+      const cycle = [...visiting.slice(cycleStart), plugin.name]
+      throw new Error(`Circular plugin dependency: ${cycle.join(' -> ')}`)
+    }
+
+    visiting.push(plugin.name)
+    for (const dependency of plugin.dependsOn || []) {
+      const target = byName.get(dependency)
+      if (target) {
+        visit(target)
+      } else if (!installed.has(dependency)) {
+        throw new Error(`Plugin "${plugin.name}" depends on "${dependency}", which is not installed`)
+      }
+    }
+    visiting.pop()
+
+    visited.add(plugin.name)
+    sorted.push(plugin)
+  }
+
+  ranked.forEach(visit)
+  return sorted
+}
+
+export function resolvePluginOptions<TOptions>(plugin: NexocPlugin<TOptions>, nexoc: NexocInstance): TOptions {
+  return defu(
+    getConfigSection(nexoc.config, plugin.name) || {},
+    (plugin.options || {}) as Record<string, unknown>
+  ) as TOptions
+}
+
+export class PluginContainer {
+  private nexoc: NexocInstance
+  private installed: Map<string, NexocPlugin> = new Map()
+  private order: NexocPlugin[] = []
+
+  constructor(nexoc: NexocInstance) {
+    this.nexoc = nexoc
+  }
+
+  getPluginsMap(): Map<string, NexocPlugin> {
+    return this.installed
+  }
+
+  has(name: string): boolean {
+    return this.installed.has(name)
+  }
+
+  async install(plugin: NexocPlugin): Promise<void> {
+    const existing = this.installed.get(plugin.name)
+    if (existing === plugin) return
+    if (existing) {
+      throw new Error(`A different plugin named "${plugin.name}" is already installed`)
+    }
+
+    for (const dependency of plugin.dependsOn || []) {
+      if (!this.installed.has(dependency)) {
+        throw new Error(`Plugin "${plugin.name}" depends on "${dependency}", which is not installed`)
+      }
+    }
+
+    this.installed.set(plugin.name, plugin)
+    this.order.push(plugin)
+
+    try {
+      await plugin.install(this.nexoc, resolvePluginOptions(plugin, this.nexoc))
+      this.nexoc.logger.child(plugin.name).debug('Plugin installed')
+    } catch (error) {
+      // The install may have installed other plugins after this one
+      this.installed.delete(plugin.name)
+      this.order.splice(this.order.indexOf(plugin), 1)
+      throw error
+    }
+  }
+
+  async installAll(plugins: NexocPlugin[]): Promise<void> {
+    const pending = plugins.filter(plugin => this.installed.get(plugin.name) !== plugin)
+    for (const plugin of sortPlugins(pending, new Set(this.installed.keys()))) {
+      await this.install(plugin)
+    }
+  }
+
+  async dispose(): Promise<void> {
+    const errors: unknown[] = []
+
+    for (const plugin of [...this.order].reverse()) {
+      try {
+        await plugin.dispose?.(this.nexoc)
+      } catch (error) {
+        errors.push(error)
+      }
+    }
+
+    this.installed.clear()
+    this.order = []
+
+    if (errors.length > 0) {
+      throw new AggregateError(errors, `Failed to dispose ${errors.length} plugin(s)`)
+    }
+  }
+}
@@ -0,0 +1,300 @@
+import type {
+  ConfigSchema,
+  ConfigSchemaField,
+  ConfigSource,
+  ConfigValueType,
+  NexocConfig,
+  NexocInstance,
+} from '@nexoc/types'
+import { formatConfigSource } from './config'
+
+export interface ConfigIssue {
+  path: string
+  message: string
+  expected?: string
+  actual?: string
+  suggestion?: string
+  source?: ConfigSource
+}
+
+export class ConfigValidationError extends Error {
+  readonly issues: ConfigIssue[]
+
+  constructor(issues: ConfigIssue[]) {
+    super(formatConfigIssues(issues))
+    this.name = 'ConfigValidationError'
+    this.issues = issues
+  }
+}
+
+const UNKNOWN_KEY_MESSAGE = 'Unknown config key'
+
+export interface ValidateConfigOptions {
+  sources?: Record<string, ConfigSource>
+}
+
+export interface NexocSchemaOptions {
+  adapters?: string[]
+  sections?: ConfigSchema
+}
+
+export function defineConfigSchema(schema: ConfigSchema): ConfigSchema {
+  return schema
+}
+
+export function createNexocSchema(options: NexocSchemaOptions = {}): ConfigSchema {
+  return {
+    rootDir: {
+      type: 'string',
+      description: 'Project root directory',
+    },
+    logLevel: {
+      type: 'string',
+      description: 'Minimum level of log messages',
+      enum: ['debug', 'info', 'warn', 'error', 'silent'],
+    },
+    logFormat: {
+      type: 'string',
+      description: 'Log output format, use "json" for machine-readable CI logs',
+      enum: ['text', 'json'],
+    },
+    defaultAdapter: {
+      type: 'string',
+      description: 'Adapter used when none is specified',
+      enum: options.adapters,
+    },
+    targets: {
+      type: 'array',
+      description: 'Build targets built together by `nexoc build`',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Unique target name, defaults to the adapter name' },
+          adapter: { type: 'string', description: 'Adapter that builds the target', enum: options.adapters, required: true },
+          options: { type: 'object', description: 'BuildOptions overrides such as outDir' },
+          dependsOn: { type: 'array', description: 'Targets whose outputs this target consumes', items: { type: 'string' } },
+        },
+      },
+    },
+    cache: {
+      type: ['object', 'boolean'],
+      description: 'Build cache settings, or false to disable it',
+      properties: {
+        dir: { type: 'string', description: 'Cache directory relative to rootDir' },
+        maxSize: { type: 'number', description: 'Maximum cache size in bytes' },
+        maxAge: { type: 'number', description: 'Maximum age of unused entries in milliseconds' },
+        ignore: { type: 'array', description: 'Globs excluded from the input hash', items: { type: 'string' } },
+      },
+      validate: value => value === true ? 'Use an object or false' : true,
+    },
+    plugins: {
+      type: 'array',
+      description: 'Plugins installed on startup',
+      items: {
+        type: 'object',
+        validate: value =>
+          typeof (value as { name?: unknown }).name === 'string' &&
+          typeof (value as { install?: unknown }).install === 'function'
+            ? true
+            : 'Expected a plugin with a "name" and an "install" function',
+      },
+    },
+    ...options.sections,
+  }
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0]!
+    previous[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j]!
+      previous[j] = a[i - 1] === b[j - 1]
+        ? diagonal
+        : Math.min(diagonal, above, previous[j - 1]!) + 1
+      diagonal = above
+    }
+  }
+
+  return previous[b.length]!
+}
+
+export function suggest(value: string, candidates: readonly string[]): string | undefined {
+  let best: string | undefined
+  let bestDistance = Infinity
+
+  for (const candidate of candidates) {
+    const a = value.toLowerCase()
+    const b = candidate.toLowerCase()
+    const distance = a.startsWith(b) || b.startsWith(a) ? 1 : levenshtein(a, b)
+    if (distance < bestDistance) {
+      best = candidate
+      bestDistance = distance
+    }
+  }
+
+  return best !== undefined && bestDistance <= Math.max(2, Math.floor(best.length / 3))
+    ? best
+    : undefined
+}
+
+function typeOf(value: unknown): ConfigValueType | 'null' | 'undefined' {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value as ConfigValueType | 'undefined'
+}
+
+function preview(value: unknown): string {
+  if (typeof value === 'function') return 'function'
+  const json = JSON.stringify(value)
+  if (json === undefined) return String(value)
+  return json.length > 40 ? `${json.slice(0, 37)}...` : json
+}
+
+function joinPath(parent: string, key: string | number): string {
+  if (typeof key === 'number') return `${parent}[${key}]`
+  return parent ? `${parent}.${key}` : key
+}
+
+function validateValue(value: unknown, field: ConfigSchemaField, path: string, issues: ConfigIssue[]): void {
+  const types = Array.isArray(field.type) ? field.type : [field.type]
+  const actualType = typeOf(value)
+
+  if (!types.includes(actualType as ConfigValueType)) {
+    issues.push({
+      path,
+      message: 'Invalid type',
+      expected: types.join(' | '),
+      actual: `${actualType} ${preview(value)}`,
+    })
+    return
+  }
+
+  if (field.enum && !field.enum.includes(value)) {
+    const candidates = field.enum.filter((item): item is string => typeof item === 'string')
+    issues.push({
+      path,
+      message: 'Invalid value',
+      expected: `one of ${field.enum.map(item => preview(item)).join(' | ')}`,
+      actual: preview(value),
+      suggestion: typeof value === 'string' ? suggest(value, candidates) : undefined,
+    })
+    return
+  }
+
+  if (field.validate) {
+    const result = field.validate(value)
+    if (result !== true) {
+      issues.push({ path, message: result, actual: preview(value) })
+      return
+    }
+  }
+
+  if (actualType === 'object' && field.properties) {
+    validateObject(value as Record<string, unknown>, field.properties, path, issues)
+  }
+
+  if (actualType === 'array' && field.items) {
+    (value as unknown[]).forEach((item, index) => {
+      validateValue(item, field.items!, joinPath(path, index), issues)
+    })
+  }
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: ConfigSchema,
+  path: string,
+  issues: ConfigIssue[]
+): void {
+  const knownKeys = Object.keys(schema)
+
+  for (const [key, field] of Object.entries(schema)) {
+    const fieldPath = joinPath(path, key)
+    if (value[key] === undefined) {
+      if (field.required) {
+        issues.push({ path: fieldPath, message: 'Missing required value', expected: [field.type].flat().join(' | ') })
+      }
+      continue
+    }
+    validateValue(value[key], field, fieldPath, issues)
+  }
+
+  for (const key of Object.keys(value)) {
+    if (key in schema || value[key] === undefined) continue
+    issues.push({
+      path: joinPath(path, key),
+      message: UNKNOWN_KEY_MESSAGE,
+      actual: preview(value[key]),
+      suggestion: suggest(key, knownKeys),
+    })
+  }
+}
+
+function findSource(path: string, sources: Record<string, ConfigSource>): ConfigSource | undefined {
+  const exact = sources[path]
+  if (exact) return exact
+
+  const nested = Object.keys(sources).find(key => key.startsWith(`${path}.`) || key.startsWith(`${path}[`))
+  if (nested) return sources[nested]
+
+  const parent = Object.keys(sources)
+    .filter(key => path.startsWith(`${key}.`) || path.startsWith(`${key}[`))
+    .sort((a, b) => b.length - a.length)[0]
+  return parent ? sources[parent] : undefined
+}
+
+export function formatConfigIssues(issues: ConfigIssue[]): string {
+  const lines = issues.map(issue => {
+    const location = issue.source ? ` (${formatConfigSource(issue.source)})` : ''
+    const expected = issue.expected ? ` expected ${issue.expected}` : ''
+    const actual = issue.actual ? `${expected ? ',' : ''} received ${issue.actual}` : ''
+    const suggestion = issue.suggestion ? `. Did you mean "${issue.suggestion}"?` : ''
+    return `  - ${issue.path}${location}: ${issue.message}${expected || actual ? ':' : ''}${expected}${actual}${suggestion}`
+  })
+
+  return [`Invalid nexoc configuration (${issues.length} ${issues.length === 1 ? 'issue' : 'issues'}):`, ...lines].join('\n')
+}
+
+export function validateConfig(
+  config: Record<string, unknown>,
+  schema: ConfigSchema,
+  options: ValidateConfigOptions = {}
+): ConfigIssue[] {
+  const issues: ConfigIssue[] = []
+  validateObject(config, schema, '', issues)
+
+  if (!options.sources) return issues
+
+  for (const issue of issues) {
+    issue.source = findSource(issue.path, options.sources)
+  }
+
+  // Other tools use NEXOC_* variables too, only the values of known keys are checked
+  return issues.filter(issue => !(issue.message === UNKNOWN_KEY_MESSAGE && issue.source?.type === 'env'))
+}
+
+export function getNexocSchema(nexoc: NexocInstance): ConfigSchema {
+  const sections: ConfigSchema = {}
+  const owners = [...nexoc.adapters.list(), ...(nexoc.config.plugins || []), ...nexoc.plugins.values()]
+
+  for (const owner of owners) {
+    sections[owner.name] = owner.configSchema
+      ? { type: 'object', properties: owner.configSchema }
+      : { type: 'object' }
+  }
+
+  return createNexocSchema({
+    adapters: nexoc.adapters.list().map(adapter => adapter.name),
+    sections,
+  })
+}
+
+export function validateNexocConfig(nexoc: NexocInstance, config: NexocConfig = nexoc.config): void {
+  const issues = validateConfig(config as Record<string, unknown>, getNexocSchema(nexoc), { sources: nexoc.configSources })
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues)
+  }
+}
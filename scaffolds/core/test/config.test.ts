@@ -0,0 +1,115 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { loadNexoc, loadNexocConfig, readEnvConfig, validateConfig, createNexocSchema, ConfigValidationError } from '../src'
+
+describe('environment config', () => {
+  let rootDir: string
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(path.join(tmpdir(), 'nexoc-config-'))
+  })
+
+  afterEach(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  it('ignores NEXOC_* variables that are not config keys', async () => {
+    const nexoc = await loadNexoc({ rootDir, env: { NEXOC_TOKEN: 'abc', NEXOC_LOG_LEVEL: 'warn' } })
+
+    expect(nexoc.config.logLevel).toBe('warn')
+  })
+
+  it('still validates the values of known keys', async () => {
+    await expect(loadNexoc({ rootDir, env: { NEXOC_LOG_LEVEL: 'loud' } })).rejects.toThrow(ConfigValidationError)
+  })
+})
+
+describe('config layering', () => {
+  let rootDir: string
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(path.join(tmpdir(), 'nexoc-config-'))
+    writeFileSync(path.join(rootDir, 'package.json'), JSON.stringify({
+      nexoc: { logLevel: 'error', logFormat: 'json', defaultAdapter: 'static' },
+    }))
+    writeFileSync(path.join(rootDir, 'nexoc.config.json'), JSON.stringify({
+      logLevel: 'warn',
+      defaultAdapter: 'serverless',
+      $production: { defaultAdapter: 'node' },
+    }))
+  })
+
+  afterEach(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  it('lets the config file override package.json', async () => {
+    const { config, sources } = await loadNexocConfig({ rootDir, env: {} })
+
+    expect(config).toMatchObject({ logLevel: 'warn', logFormat: 'json', defaultAdapter: 'serverless' })
+    expect(sources.logFormat).toEqual({ type: 'package', path: path.join(rootDir, 'package.json') })
+    expect(sources.logLevel).toEqual({ type: 'file', path: path.join(rootDir, 'nexoc.config.json') })
+  })
+
+  it('applies the section of the current environment', async () => {
+    const { config, envName, sources } = await loadNexocConfig({ rootDir, env: { NODE_ENV: 'production' } })
+
+    expect(envName).toBe('production')
+    expect(config.defaultAdapter).toBe('node')
+    expect(sources.defaultAdapter).toMatchObject({ type: 'file', environment: 'production' })
+  })
+
+  it('lets environment variables and then overrides win', async () => {
+    const env = { NEXOC_LOG_LEVEL: 'debug', NEXOC_DEFAULT_ADAPTER: 'static' }
+
+    const fromEnv = await loadNexocConfig({ rootDir, env })
+    expect(fromEnv.config).toMatchObject({ logLevel: 'debug', defaultAdapter: 'static' })
+    expect(fromEnv.sources.logLevel).toEqual({ type: 'env' })
+
+    const fromCli = await loadNexocConfig({ rootDir, env, overrides: { logLevel: 'info' } })
+    expect(fromCli.config.logLevel).toBe('info')
+    expect(fromCli.sources.logLevel).toEqual({ type: 'cli' })
+  })
+
+  it('resolves a relative rootDir against the file that sets it', async () => {
+    writeFileSync(path.join(rootDir, 'nexoc.config.json'), JSON.stringify({ rootDir: 'app' }))
+
+    const { config } = await loadNexocConfig({ rootDir, env: {} })
+    expect(config.rootDir).toBe(path.join(rootDir, 'app'))
+  })
+})
+
+describe('readEnvConfig', () => {
+  it('maps NEXOC_* variables to camel-cased keys and parses values', () => {
+    expect(readEnvConfig({
+      NEXOC_LOG_LEVEL: 'warn',
+      NEXOC_NODE__MINIFY: 'true',
+      NEXOC_NODE__PORT: '3000',
+      NEXOC_ENV: 'production',
+      PATH: '/usr/bin',
+    })).toEqual({ logLevel: 'warn', node: { minify: true, port: 3000 } })
+  })
+})
+
+describe('validateConfig', () => {
+  const schema = createNexocSchema({ adapters: ['node', 'static'] })
+
+  it('suggests the closest key for a typo', () => {
+    const [issue] = validateConfig({ logLevle: 'info' }, schema)
+
+    expect(issue).toMatchObject({ path: 'logLevle', message: 'Unknown config key', suggestion: 'logLevel' })
+  })
+
+  it('suggests the closest allowed value', () => {
+    const [issue] = validateConfig({ logLevel: 'debgu' }, schema)
+
+    expect(issue).toMatchObject({ path: 'logLevel', message: 'Invalid value', suggestion: 'debug' })
+  })
+
+  it('reports where an invalid value came from', async () => {
+    await expect(loadNexoc({ env: { NEXOC_LOG_LEVEL: 'loud' }, rootDir: tmpdir() }))
+      .rejects.toThrow('logLevel (env): Invalid value')
+  })
+})
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import type { LifecyclePhase } from '@nexoc/types'
+import { createLifecycle } from '@nexoc/lifecycle'
+import { createNexoc } from '../src'
+
+describe('shared phase registry', () => {
+  it('runs phases a plugin registered in lifecycles created for the instance', async () => {
+    const nexoc = createNexoc()
+    await nexoc.use({
+      name: 'audit',
+      install: nexoc => nexoc.phases.register('audit' as LifecyclePhase, { after: 'generate' }),
+    })
+
+    const lifecycle = createLifecycle(nexoc)
+    await lifecycle.run(undefined)
+    const phases = lifecycle.getReport()!.phases.map(result => result.phase)
+    expect(phases.indexOf('audit' as LifecyclePhase)).toBe(phases.indexOf('generate') + 1)
+  })
+
+  it('keeps the phases of different instances apart', () => {
+    const first = createNexoc()
+    first.phases.register('audit' as LifecyclePhase)
+
+    expect(createNexoc().phases.has('audit')).toBe(false)
+  })
+})
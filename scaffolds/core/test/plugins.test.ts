@@ -0,0 +1,132 @@
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { BuildAdapter, NexocPlugin } from '@nexoc/types'
+import { createNexoc, loadNexoc, definePlugin, sortPlugins } from '../src'
+
+const customAdapter: BuildAdapter = {
+  name: 'custom',
+  build: async () => ({ success: true, outputs: [], duration: 0 }),
+}
+
+describe('config plugins', () => {
+  let rootDir: string
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(path.join(tmpdir(), 'nexoc-plugins-'))
+  })
+
+  afterEach(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  it('accepts an adapter registered by a plugin as defaultAdapter', async () => {
+    const plugin = definePlugin({
+      name: 'custom-adapter',
+      install: nexoc => nexoc.adapters.register(customAdapter),
+    })
+    const nexoc = await loadNexoc({ rootDir, env: {}, overrides: { defaultAdapter: 'custom', plugins: [plugin] } })
+
+    expect(nexoc.config.defaultAdapter).toBe('custom')
+    expect(nexoc.plugins.has('custom-adapter')).toBe(true)
+  })
+
+  it('disposes the plugins when the config is invalid', async () => {
+    const dispose = vi.fn()
+    const plugin: NexocPlugin = { name: 'disposable', install: () => {}, dispose }
+
+    await expect(loadNexoc({ rootDir, env: {}, overrides: { defaultAdapter: 'nope', plugins: [plugin] } }))
+      .rejects.toThrow('defaultAdapter')
+    expect(dispose).toHaveBeenCalledOnce()
+  })
+})
+
+describe('createNexoc', () => {
+  it('installs config plugins on the first command', async () => {
+    const install = vi.fn()
+    const nexoc = createNexoc({ logLevel: 'silent', plugins: [{ name: 'configured', install }] })
+    nexoc.registerCommand({ meta: { name: 'noop', description: 'Does nothing' }, run: () => {} })
+
+    expect(install).not.toHaveBeenCalled()
+    await nexoc.runCommand('noop')
+    await nexoc.runCommand('noop')
+    expect(install).toHaveBeenCalledOnce()
+    expect(nexoc.plugins.has('configured')).toBe(true)
+  })
+
+  it('lets a config plugin install other plugins', async () => {
+    const nested: NexocPlugin = { name: 'nested', install: () => {} }
+    const nexoc = createNexoc({
+      plugins: [{ name: 'parent', install: nexoc => nexoc.use(nested) }],
+    })
+
+    await nexoc.use({ name: 'extra', install: () => {} })
+    expect([...nexoc.plugins.keys()]).toEqual(['parent', 'nested', 'extra'])
+  })
+
+  it('removes a plugin that failed to install without touching the ones it installed', async () => {
+    const nested: NexocPlugin = { name: 'nested', install: () => {} }
+    const nexoc = createNexoc()
+
+    await expect(nexoc.use({
+      name: 'broken',
+      install: async (nexoc) => {
+        await nexoc.use(nested)
+        throw new Error('install failed')
+      },
+    })).rejects.toThrow('install failed')
+    expect([...nexoc.plugins.keys()]).toEqual(['nested'])
+  })
+
+  it('disposes plugins in reverse install order', async () => {
+    const disposed: string[] = []
+    const nexoc = createNexoc()
+    for (const name of ['a', 'b', 'c']) {
+      await nexoc.use({ name, install: () => {}, dispose: () => { disposed.push(name) } })
+    }
+
+    await nexoc.close()
+    expect(disposed).toEqual(['c', 'b', 'a'])
+  })
+})
+
+describe('sortPlugins', () => {
+  const plugin = (name: string, extra: Partial<NexocPlugin> = {}): NexocPlugin => ({ name, install: () => {}, ...extra })
+  const names = (plugins: NexocPlugin[]) => plugins.map(plugin => plugin.name)
+
+  it('orders by enforce and keeps declaration order otherwise', () => {
+    const sorted = sortPlugins([
+      plugin('late', { enforce: 'post' }),
+      plugin('a'),
+      plugin('early', { enforce: 'pre' }),
+      plugin('b'),
+    ])
+
+    expect(names(sorted)).toEqual(['early', 'a', 'b', 'late'])
+  })
+
+  it('installs dependencies first, even across enforce groups', () => {
+    const sorted = sortPlugins([
+      plugin('app', { enforce: 'pre', dependsOn: ['db'] }),
+      plugin('db'),
+    ])
+
+    expect(names(sorted)).toEqual(['db', 'app'])
+  })
+
+  it('accepts dependencies that are already installed', () => {
+    expect(names(sortPlugins([plugin('app', { dependsOn: ['db'] })], new Set(['db'])))).toEqual(['app'])
+  })
+
+  it('rejects missing and circular dependencies', () => {
+    expect(() => sortPlugins([plugin('app', { dependsOn: ['db'] })]))
+      .toThrow('Plugin "app" depends on "db", which is not installed')
+    expect(() => sortPlugins([plugin('a', { dependsOn: ['b'] }), plugin('b', { dependsOn: ['a'] })]))
+      .toThrow('Circular plugin dependency: a -> b -> a')
+  })
+
+  it('rejects two different plugins with the same name', () => {
+    expect(() => sortPlugins([plugin('a'), plugin('a')])).toThrow('Plugin "a" is declared more than once')
+  })
+})
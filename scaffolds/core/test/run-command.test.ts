@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Command } from '@nexoc/types'
+import { createScriptedPrompter } from '@nexoc/commands'
+import { createNexoc } from '../src'
+
+describe('runCommand', () => {
+  const isTTY = process.stdin.isTTY
+
+  beforeEach(() => {
+    process.stdin.isTTY = true
+    vi.stubEnv('CI', '')
+  })
+
+  afterEach(() => {
+    process.stdin.isTTY = isTTY
+    vi.unstubAllEnvs()
+  })
+
+  function setup() {
+    const nexoc = createNexoc({ logLevel: 'silent' })
+    nexoc.prompter = createScriptedPrompter([])
+    const run = vi.fn()
+    const command: Command = {
+      meta: { name: 'init', description: 'Create a project' },
+      options: {
+        git: {
+          type: 'boolean',
+          description: 'Initialize git',
+          default: true,
+          prompt: { type: 'confirm', message: 'Initialize git?' },
+        },
+      },
+      run: ctx => run(ctx.options, ctx.interactive),
+    }
+    nexoc.registerCommand(command)
+    return { nexoc, run }
+  }
+
+  it.each(['--yes', '-y'])('skips prompts with %s', async (flag) => {
+    const { nexoc, run } = setup()
+    await nexoc.runCommand('init', [flag])
+
+    expect(run).toHaveBeenCalledWith({ git: true }, false)
+  })
+
+  it('prompts without --yes', async () => {
+    const { nexoc } = setup()
+
+    await expect(nexoc.runCommand('init')).rejects.toThrow('No scripted answer left for prompt "git"')
+  })
+})
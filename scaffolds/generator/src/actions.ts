@@ -0,0 +1,72 @@
+import { spawn } from 'node:child_process'
+import type { NexocInstance } from '@nexoc/types'
+import type { TemplateAction, TemplateAnswers } from './manifest'
+import type { PackageManager } from './index'
+
+export interface ActionContext {
+  targetDir: string
+  packageManager: PackageManager
+  answers: TemplateAnswers
+  nexoc?: NexocInstance
+}
+
+function runProcess(command: string, args: string[], cwd: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      cwd,
+      stdio: 'inherit',
+      shell: process.platform === 'win32',
+    })
+
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve()
+      } else {
+        reject(new Error(`"${[command, ...args].join(' ')}" exited with code ${code}`))
+      }
+    })
+
+    child.on('error', reject)
+  })
+}
+
+export function describeAction(action: TemplateAction): string {
+  switch (action.type) {
+    case 'install':
+      return 'install dependencies'
+    case 'git':
+      return 'initialize git repository'
+    case 'script':
+      return `run script "${action.script}"`
+    case 'command':
+      return `run command "${action.command}"`
+  }
+}
+
+export async function runAction(action: TemplateAction, ctx: ActionContext): Promise<void> {
+  switch (action.type) {
+    case 'install':
+      return runProcess(ctx.packageManager, ['install'], ctx.targetDir)
+    case 'git':
+      return runProcess('git', ['init', '--quiet'], ctx.targetDir)
+    case 'script':
+      return runProcess(ctx.packageManager, ['run', action.script], ctx.targetDir)
+    case 'command':
+      if (!ctx.nexoc) {
+        throw new Error(`Cannot run command "${action.command}" without a Nexoc instance`)
+      }
+      return ctx.nexoc.runCommand(action.command, action.args)
+  }
+}
+
+export async function runActions(actions: TemplateAction[], ctx: ActionContext): Promise<string[]> {
+  const completed: string[] = []
+
+  for (const action of actions) {
+    if (action.when && !action.when(ctx.answers)) continue
+    await runAction(action, ctx)
+    completed.push(describeAction(action))
+  }
+
+  return completed
+}
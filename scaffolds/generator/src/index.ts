@@ -0,0 +1,259 @@
+import { existsSync } from 'node:fs'
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { LifecyclePhase, NexocHookable, NexocInstance } from '@nexoc/types'
+import { createNexocHooks } from '@nexoc/hooks'
+import { createLifecycle, LIFECYCLE_PHASES } from '@nexoc/lifecycle'
+import type { LifecycleManager } from '@nexoc/lifecycle'
+import { resolveTemplate } from './template'
+import type { ResolvedTemplate } from './template'
+import { isBinary, renderPath, renderString } from './render'
+import {
+  MANIFEST_FILES,
+  loadTemplateManifest,
+  resolveAnswers,
+  isFileIncluded,
+  matchesPattern,
+} from './manifest'
+import type { TemplateAnswers, TemplateDefinition, QuestionResolver } from './manifest'
+import { runActions } from './actions'
+
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun'
+
+export const TSCONFIG_PRESETS = ['base', 'node', 'web', 'vite', 'react', 'vue'] as const
+
+export type TsconfigPreset = typeof TSCONFIG_PRESETS[number]
+
+export interface TemplateVariables {
+  name: string
+  packageManager: PackageManager
+  tsconfigPreset: TsconfigPreset
+  [key: string]: unknown
+}
+
+export interface GenerateOptions {
+  template: string | ResolvedTemplate
+  targetDir: string
+  variables: TemplateVariables
+  force?: boolean
+  cwd?: string
+  answers?: TemplateAnswers
+  resolveQuestion?: QuestionResolver
+  skipActions?: boolean
+  nexoc?: NexocInstance
+  hooks?: NexocHookable
+}
+
+export interface GenerateState {
+  template: ResolvedTemplate
+  manifest: TemplateDefinition
+  targetDir: string
+  force: boolean
+  answers: TemplateAnswers
+  variables: TemplateVariables
+  files: Map<string, string | Buffer>
+}
+
+export interface GenerateResult {
+  template: ResolvedTemplate
+  targetDir: string
+  answers: TemplateAnswers
+  files: string[]
+  actions: string[]
+}
+
+const IGNORED_ENTRIES = new Set(['node_modules', '.git', ...MANIFEST_FILES])
+
+export function detectPackageManager(): PackageManager {
+  const userAgent = process.env.npm_config_user_agent || ''
+
+  if (userAgent.startsWith('pnpm')) return 'pnpm'
+  if (userAgent.startsWith('yarn')) return 'yarn'
+  if (userAgent.startsWith('bun')) return 'bun'
+  return 'npm'
+}
+
+export function isTsconfigPreset(value: unknown): value is TsconfigPreset {
+  return TSCONFIG_PRESETS.includes(value as TsconfigPreset)
+}
+
+export async function isEmptyDir(dir: string): Promise<boolean> {
+  if (!existsSync(dir)) return true
+  const entries = await readdir(dir)
+  return entries.every(entry => entry === '.git')
+}
+
+async function collectFiles(root: string, dir = root): Promise<string[]> {
+  const files: string[] = []
+  const entries = await readdir(dir, { withFileTypes: true })
+
+  for (const entry of entries) {
+    if (IGNORED_ENTRIES.has(entry.name)) continue
+
+    const fullPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      files.push(...await collectFiles(root, fullPath))
+    } else if (entry.isFile()) {
+      files.push(path.relative(root, fullPath).split(path.sep).join('/'))
+    }
+  }
+
+  return files.sort()
+}
+
+async function validateState(state: GenerateState): Promise<void> {
+  if (!state.force && !await isEmptyDir(state.targetDir)) {
+    throw new Error(`Target directory "${state.targetDir}" is not empty. Use --force to overwrite.`)
+  }
+}
+
+async function prepareFiles(state: GenerateState): Promise<void> {
+  const { manifest, template, variables, answers } = state
+  const sources = await collectFiles(template.filesDir)
+
+  for (const source of sources) {
+    if (!isFileIncluded(source, manifest.files || [], answers)) continue
+
+    const content = await readFile(path.join(template.filesDir, source))
+    const raw = isBinary(content) || matchesPattern(source, manifest.raw || [])
+
+    state.files.set(
+      renderPath(source, variables),
+      raw ? content : renderString(content.toString('utf-8'), variables)
+    )
+  }
+}
+
+// Registers how to undo every write, so a failed generation leaves the target as it was
+async function writeFiles(state: GenerateState, lifecycle: LifecycleManager<GenerateState>): Promise<string[]> {
+  const written: string[] = []
+
+  for (const [file, content] of state.files) {
+    const targetPath = path.join(state.targetDir, file)
+    const createdDir = await mkdir(path.dirname(targetPath), { recursive: true })
+    if (createdDir) {
+      lifecycle.onRollback(`remove ${createdDir}`, () => rm(createdDir, { recursive: true, force: true }))
+    }
+
+    const previous = existsSync(targetPath) ? await readFile(targetPath) : undefined
+    await writeFile(targetPath, content)
+    lifecycle.onRollback(
+      previous ? `restore ${file}` : `delete ${file}`,
+      previous ? () => writeFile(targetPath, previous) : () => rm(targetPath, { force: true })
+    )
+    written.push(file)
+  }
+
+  return written.sort()
+}
+
+export async function generateProject(options: GenerateOptions): Promise<GenerateResult> {
+  const template = typeof options.template === 'string'
+    ? resolveTemplate(options.template, { cwd: options.cwd })
+    : options.template
+  const manifest = await loadTemplateManifest(template.dir)
+  const answers = await resolveAnswers(manifest.questions, options.answers, options.resolveQuestion)
+  const variables: TemplateVariables = {
+    ...options.variables,
+    ...answers,
+    ...await manifest.variables?.(answers),
+  }
+
+  const hooks = options.hooks || options.nexoc?.hooks || createNexocHooks()
+  const lifecycle = options.nexoc && !options.hooks
+    ? createLifecycle<GenerateState>(options.nexoc)
+    : createLifecycle<GenerateState>(hooks, options.nexoc?.phases)
+  const meta = { template: template.name }
+
+  let state: GenerateState = {
+    template,
+    manifest,
+    targetDir: path.resolve(options.cwd || process.cwd(), options.targetDir),
+    force: options.force ?? false,
+    answers,
+    variables,
+    files: new Map(),
+  }
+
+  const runSinglePhase = async (phase: LifecyclePhase): Promise<void> => {
+    const ctx = await lifecycle.runPhase(phase, state, meta)
+    if (ctx.aborted) {
+      throw new Error(`Project generation aborted during "${phase}"${ctx.abortReason ? `: ${ctx.abortReason}` : ''}`)
+    }
+    state = ctx.data
+  }
+
+  // Custom phases run at their place in the registry, before the next
+  // built-in phase the generator runs or at the end
+  const phases = lifecycle.phases.list()
+  let next = 0
+  const runPhase = async (phase?: LifecyclePhase): Promise<void> => {
+    const index = phase ? phases.indexOf(phase) : phases.length
+    for (const pending of phases.slice(next, index)) {
+      if (!(LIFECYCLE_PHASES as readonly string[]).includes(pending)) await runSinglePhase(pending)
+    }
+    next = index + 1
+    if (phase) await runSinglePhase(phase)
+  }
+
+  await validateState(state)
+  await runPhase('validate')
+
+  await prepareFiles(state)
+  await runPhase('prepare')
+
+  try {
+    await runPhase('generate')
+    const files = await writeFiles(state, lifecycle)
+
+    const actions = options.skipActions
+      ? []
+      : await runActions(manifest.actions || [], {
+          targetDir: state.targetDir,
+          packageManager: state.variables.packageManager,
+          answers: state.variables,
+          nexoc: options.nexoc,
+        })
+    await runPhase('finalize')
+    await runPhase()
+
+    return {
+      template,
+      targetDir: state.targetDir,
+      answers,
+      files,
+      actions,
+    }
+  } catch (error) {
+    await lifecycle.rollback()
+    throw error
+  }
+}
+
+export { resolveTemplate, TEMPLATE_PACKAGE_PREFIX } from './template'
+export { renderString, renderPath, isBinary } from './render'
+export {
+  defineTemplate,
+  loadTemplateManifest,
+  resolveAnswers,
+  validateAnswer,
+  getChoiceValues,
+  matchesPattern,
+  isFileIncluded,
+  MANIFEST_FILES,
+} from './manifest'
+export { runAction, runActions, describeAction } from './actions'
+export type { ResolvedTemplate, ResolveTemplateOptions } from './template'
+export type {
+  TemplateAnswers,
+  TemplateQuestion,
+  StringQuestion,
+  BooleanQuestion,
+  SelectQuestion,
+  SelectChoice,
+  TemplateFileRule,
+  TemplateAction,
+  TemplateDefinition,
+  QuestionResolver,
+} from './manifest'
+export type { ActionContext } from './actions'
@@ -0,0 +1,155 @@
+import { existsSync } from 'node:fs'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+
+export const MANIFEST_FILES = ['nexo.template.ts', 'nexo.template.mjs', 'nexo.template.js']
+
+export type TemplateAnswers = Record<string, unknown>
+
+interface BaseQuestion<TValue> {
+  name: string
+  message: string
+  default?: TValue
+  when?: (answers: TemplateAnswers) => boolean
+}
+
+export interface StringQuestion extends BaseQuestion<string> {
+  type: 'string'
+  validate?: (value: string) => true | string
+}
+
+export interface BooleanQuestion extends BaseQuestion<boolean> {
+  type: 'boolean'
+}
+
+export interface SelectChoice {
+  value: string
+  label?: string
+}
+
+export interface SelectQuestion extends BaseQuestion<string> {
+  type: 'select'
+  choices: Array<string | SelectChoice>
+}
+
+export type TemplateQuestion = StringQuestion | BooleanQuestion | SelectQuestion
+
+export interface TemplateFileRule {
+  match: string | string[]
+  when: (answers: TemplateAnswers) => boolean
+}
+
+export type TemplateAction =
+  | { type: 'install'; when?: (answers: TemplateAnswers) => boolean }
+  | { type: 'git'; when?: (answers: TemplateAnswers) => boolean }
+  | { type: 'script'; script: string; when?: (answers: TemplateAnswers) => boolean }
+  | { type: 'command'; command: string; args?: string[]; when?: (answers: TemplateAnswers) => boolean }
+
+export interface TemplateDefinition {
+  name?: string
+  description?: string
+  questions?: TemplateQuestion[]
+  files?: TemplateFileRule[]
+  raw?: string[]
+  variables?: (answers: TemplateAnswers) => Record<string, unknown> | Promise<Record<string, unknown>>
+  actions?: TemplateAction[]
+}
+
+export type QuestionResolver = (question: TemplateQuestion, answers: TemplateAnswers) => unknown | Promise<unknown>
+
+export function defineTemplate(definition: TemplateDefinition): TemplateDefinition {
+  return definition
+}
+
+export async function loadTemplateManifest(dir: string): Promise<TemplateDefinition> {
+  for (const file of MANIFEST_FILES) {
+    const manifestPath = path.join(dir, file)
+    if (!existsSync(manifestPath)) continue
+
+    const module = await import(pathToFileURL(manifestPath).href)
+    const definition = module.default || module.template
+    if (!definition || typeof definition !== 'object') {
+      throw new Error(`Template manifest "${manifestPath}" must export a template definition`)
+    }
+    return definition as TemplateDefinition
+  }
+
+  return {}
+}
+
+export function getChoiceValues(question: SelectQuestion): string[] {
+  return question.choices.map(choice => typeof choice === 'string' ? choice : choice.value)
+}
+
+export function validateAnswer(question: TemplateQuestion, value: unknown): string | undefined {
+  switch (question.type) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        return `Expected "${question.name}" to be a string`
+      }
+      const result = question.validate?.(value) ?? true
+      return result === true ? undefined : result
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : `Expected "${question.name}" to be a boolean`
+    case 'select': {
+      const values = getChoiceValues(question)
+      return values.includes(value as string)
+        ? undefined
+        : `Expected "${question.name}" to be one of: ${values.join(', ')}`
+    }
+  }
+}
+
+function defaultAnswer(question: TemplateQuestion): unknown {
+  if (question.default !== undefined) return question.default
+  if (question.type === 'boolean') return false
+  if (question.type === 'select') return getChoiceValues(question)[0]
+  return undefined
+}
+
+export async function resolveAnswers(
+  questions: TemplateQuestion[] = [],
+  provided: TemplateAnswers = {},
+  resolver?: QuestionResolver
+): Promise<TemplateAnswers> {
+  const answers: TemplateAnswers = { ...provided }
+
+  for (const question of questions) {
+    if (question.when && !question.when(answers)) continue
+
+    if (answers[question.name] === undefined) {
+      answers[question.name] = resolver
+        ? await resolver(question, answers)
+        : defaultAnswer(question)
+    }
+
+    const error = validateAnswer(question, answers[question.name])
+    if (error) {
+      throw new Error(error)
+    }
+  }
+
+  return answers
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/\/+$/, '')
+    .split('**')
+    .map(part => part
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '[^/]*')
+      .replace(/\?/g, '[^/]'))
+    .join('.*')
+  return new RegExp(`^${source}(/.*)?$`)
+}
+
+export function matchesPattern(file: string, patterns: string | string[]): boolean {
+  const list = Array.isArray(patterns) ? patterns : [patterns]
+  return list.some(pattern => patternToRegExp(pattern).test(file))
+}
+
+export function isFileIncluded(file: string, rules: TemplateFileRule[], answers: TemplateAnswers): boolean {
+  return rules.every(rule => !matchesPattern(file, rule.match) || rule.when(answers))
+}
@@ -0,0 +1,37 @@
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g
+
+const RENAMED_FILES: Record<string, string> = {
+  _gitignore: '.gitignore',
+  _npmrc: '.npmrc',
+}
+
+function lookup(variables: Record<string, unknown>, key: string): unknown {
+  return key.split('.').reduce<unknown>((value, segment) => {
+    if (value && typeof value === 'object') {
+      return (value as Record<string, unknown>)[segment]
+    }
+    return undefined
+  }, variables)
+}
+
+export function renderString(template: string, variables: Record<string, unknown>): string {
+  return template.replace(VARIABLE_PATTERN, (match, key: string) => {
+    const value = lookup(variables, key)
+    return value === undefined || value === null ? match : String(value)
+  })
+}
+
+export function renderPath(relativePath: string, variables: Record<string, unknown>): string {
+  return relativePath
+    .split('/')
+    .map(segment => RENAMED_FILES[segment] ?? renderString(segment, variables))
+    .join('/')
+}
+
+export function isBinary(content: Buffer): boolean {
+  const length = Math.min(content.length, 8000)
+  for (let i = 0; i < length; i++) {
+    if (content[i] === 0) return true
+  }
+  return false
+}
@@ -0,0 +1,115 @@
+import { existsSync, statSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const TEMPLATE_PACKAGE_PREFIX = '@nexoc/template-'
+const TEMPLATE_FILES_DIR = 'template'
+const WORKSPACE_TEMPLATES_DIR = 'templates'
+
+export interface ResolvedTemplate {
+  name: string
+  dir: string
+  filesDir: string
+  source: 'local' | 'workspace' | 'package'
+}
+
+export interface ResolveTemplateOptions {
+  cwd?: string
+}
+
+function isDirectory(target: string): boolean {
+  return existsSync(target) && statSync(target).isDirectory()
+}
+
+function isPathLike(name: string): boolean {
+  return name.startsWith('.') || path.isAbsolute(name) || (name.includes('/') && !name.startsWith('@'))
+}
+
+function toResolved(name: string, dir: string, source: ResolvedTemplate['source']): ResolvedTemplate {
+  const filesDir = path.join(dir, TEMPLATE_FILES_DIR)
+  return {
+    name,
+    dir,
+    filesDir: isDirectory(filesDir) ? filesDir : dir,
+    source,
+  }
+}
+
+function ancestors(start: string): string[] {
+  const dirs: string[] = []
+  let current = path.resolve(start)
+
+  while (true) {
+    dirs.push(current)
+    const parent = path.dirname(current)
+    if (parent === current) break
+    current = parent
+  }
+
+  return dirs
+}
+
+function findWorkspaceTemplate(name: string, cwd: string): string | undefined {
+  const moduleDir = path.dirname(fileURLToPath(import.meta.url))
+  const roots = new Set([...ancestors(cwd), ...ancestors(moduleDir)])
+
+  for (const root of roots) {
+    const candidate = path.join(root, WORKSPACE_TEMPLATES_DIR, name)
+    if (isDirectory(candidate)) {
+      return candidate
+    }
+  }
+
+  return undefined
+}
+
+function templatePackageNames(name: string): string[] {
+  if (name.startsWith('@') || name.startsWith('nexoc-template-')) {
+    return [name]
+  }
+  return [`${TEMPLATE_PACKAGE_PREFIX}${name}`, `nexoc-template-${name}`, name]
+}
+
+function findPackageTemplate(name: string, cwd: string): string | undefined {
+  const require = createRequire(path.join(cwd, 'package.json'))
+
+  for (const packageName of templatePackageNames(name)) {
+    try {
+      return path.dirname(require.resolve(`${packageName}/package.json`))
+    } catch {
+      // Not installed
+    }
+  }
+
+  return undefined
+}
+
+export function resolveTemplate(name: string, options: ResolveTemplateOptions = {}): ResolvedTemplate {
+  const cwd = options.cwd || process.cwd()
+
+  if (isPathLike(name)) {
+    const dir = path.resolve(cwd, name)
+    if (!isDirectory(dir)) {
+      throw new Error(`Template directory "${dir}" does not exist`)
+    }
+    return toResolved(path.basename(dir), dir, 'local')
+  }
+
+  const workspaceDir = findWorkspaceTemplate(name, cwd)
+  if (workspaceDir) {
+    return toResolved(name, workspaceDir, 'workspace')
+  }
+
+  const packageDir = findPackageTemplate(name, cwd)
+  if (packageDir) {
+    return toResolved(name, packageDir, 'package')
+  }
+
+  throw new Error(
+    `Template "${name}" not found. Looked for a local "${WORKSPACE_TEMPLATES_DIR}/${name}" directory ` +
+    `and the packages: ${templatePackageNames(name).join(', ')}`
+  )
+}
+
+export { TEMPLATE_PACKAGE_PREFIX }
@@ -3,8 +3,21 @@ import type { NexocHooks, NexocHookable } from '@nexoc/types'
 
 type SimpleHookCallback = (...args: unknown[]) => void | Promise<void>
 
+type HookCaller = (handlers: SimpleHookCallback[], args: unknown[]) => Promise<unknown>
+
 export function createNexocHooks(): NexocHookable {
-  return createHooks<NexocHooks>()
+  const hooks = createHooks<NexocHooks>()
+  // hookable's callHook puts the hook name in front of the arguments that
+  // beforeEach and afterEach see, so both go through callHookWith instead
+  const callHookWith = hooks.callHookWith as unknown as (caller: HookCaller, name: string, ...args: unknown[]) => Promise<unknown>
+  const serial: HookCaller = (handlers, args) =>
+    handlers.reduce<Promise<unknown>>((promise, handler) => promise.then(() => handler(...args)), Promise.resolve())
+  const parallel: HookCaller = (handlers, args) => Promise.all(handlers.map(handler => handler(...args)))
+
+  hooks.callHook = ((name: string, ...args: unknown[]) => callHookWith(serial, name, ...args)) as NexocHookable['callHook']
+  hooks.callHookParallel = ((name: string, ...args: unknown[]) =>
+    callHookWith(parallel, name, ...args)) as NexocHookable['callHookParallel']
+  return hooks
 }
 
 export const hookUtils = {
@@ -96,6 +109,14 @@ export function createHookDecorator(hooks: NexocHookable) {
   }
 }
 
+export { Tracer, createTracer, formatTraceSummary, toChromeTrace } from './tracing'
 export { createHooks } from 'hookable'
-export type { NexocHooks, NexocHookable } from '@nexoc/types'
+export type {
+  NexocHooks,
+  NexocHookable,
+  TraceSpan,
+  TraceSpanKind,
+  TraceSpanStatus,
+  ChromeTraceEvent,
+} from '@nexoc/types'
 
@@ -0,0 +1,356 @@
+import type {
+  BuildOptions,
+  BuildResult,
+  ChromeTraceEvent,
+  LifecycleContext,
+  NexocHookable,
+  PipelineContext,
+  PipelineStage,
+  StageAttempt,
+  TraceSpan,
+  TraceSpanKind,
+  TraceSpanStatus,
+} from '@nexoc/types'
+
+type HookCallback = (...args: unknown[]) => unknown
+
+interface HookEventTrace {
+  /** Span the handlers of the event are nested in */
+  parent?: TraceSpan
+  /** Runs once the handlers have finished, `failed` when one of them threw */
+  done?: (failed: boolean) => void
+}
+
+/**
+ * Records spans for commands, lifecycle phases, pipelines, stages, builds
+ * and every hook handler. `attach` derives them from the hook events, so
+ * nothing else needs to know about tracing.
+ */
+export class Tracer {
+  private origin = performance.now()
+  private nextId = 1
+  private records: TraceSpan[] = []
+  private open: TraceSpan[] = []
+  private commands = new Map<string, TraceSpan[]>()
+  private pipelines = new WeakMap<PipelineContext, TraceSpan>()
+  private stages = new WeakMap<PipelineContext, Map<string, TraceSpan>>()
+  private builds = new WeakMap<BuildOptions, TraceSpan>()
+
+  get spans(): readonly TraceSpan[] {
+    return this.records
+  }
+
+  private now(): number {
+    return performance.now() - this.origin
+  }
+
+  /** Without an explicit parent, spans nest in the most recently started open span */
+  startSpan(
+    kind: TraceSpanKind,
+    name: string,
+    options: { parent?: TraceSpan; attributes?: Record<string, unknown> } = {}
+  ): TraceSpan {
+    const span: TraceSpan = {
+      id: this.nextId++,
+      parentId: (options.parent ?? this.open[this.open.length - 1])?.id,
+      kind,
+      name,
+      start: this.now(),
+      attributes: options.attributes || {},
+    }
+    this.records.push(span)
+    this.open.push(span)
+    return span
+  }
+
+  endSpan(span: TraceSpan, status: TraceSpanStatus = 'ok', error?: unknown): void {
+    if (span.end !== undefined) return
+
+    span.end = this.now()
+    span.duration = span.end - span.start
+    span.status = span.status === 'aborted' && status === 'error' ? 'aborted' : status
+    if (error !== undefined) {
+      span.error = error instanceof Error ? error.message : String(error)
+    }
+    this.open.splice(this.open.indexOf(span), 1)
+  }
+
+  /** Ends every span still open, e.g. when the process exits mid-command */
+  endOpenSpans(status: TraceSpanStatus = 'aborted'): void {
+    for (const span of [...this.open].reverse()) {
+      this.endSpan(span, status)
+    }
+  }
+
+  /**
+   * Traces every `callHook` on `hooks` until the returned function is
+   * called. Handlers run in series, as with a plain `callHook`.
+   */
+  attach(hooks: NexocHookable): () => void {
+    const callHook = hooks.callHook
+    // hookable binds callHookWith to the instance
+    const callHookWith = hooks.callHookWith as unknown as (
+      caller: (handlers: HookCallback[], args: unknown[]) => Promise<void>,
+      name: string,
+      ...args: unknown[]
+    ) => Promise<void>
+
+    hooks.callHook = ((name: string, ...args: unknown[]) =>
+      callHookWith((handlers, callArgs) => this.traceHookCall(name, handlers, callArgs), name, ...args)
+    ) as NexocHookable['callHook']
+
+    return () => {
+      hooks.callHook = callHook
+    }
+  }
+
+  private async traceHookCall(name: string, handlers: HookCallback[], args: unknown[]): Promise<void> {
+    const event = this.onHookEvent(name, args)
+    let failed = false
+
+    try {
+      for (const [index, handler] of handlers.entries()) {
+        const span = this.startSpan('hook', name, {
+          parent: event.parent,
+          // hookable names anonymous handlers `_<hook>_hook_cb`
+          attributes: { handler: handler.name && !handler.name.endsWith('_hook_cb') ? handler.name : `#${index + 1}` },
+        })
+        try {
+          await handler(...args)
+          this.endSpan(span)
+        } catch (error) {
+          this.endSpan(span, 'error', error)
+          throw error
+        }
+      }
+    } catch (error) {
+      failed = true
+      throw error
+    } finally {
+      event.done?.(failed)
+    }
+  }
+
+  private stageSpans(ctx: PipelineContext): Map<string, TraceSpan> {
+    let spans = this.stages.get(ctx)
+    if (!spans) {
+      spans = new Map()
+      this.stages.set(ctx, spans)
+    }
+    return spans
+  }
+
+  /** A sub-pipeline nests in the stage of its parent that runs it */
+  private parentOfPipeline(ctx: PipelineContext): TraceSpan | undefined {
+    if (!ctx.parent || !ctx.namespace) return undefined
+
+    const namespace = ctx.namespace
+    for (const [name, span] of this.stageSpans(ctx.parent)) {
+      if (namespace === name || namespace.startsWith(`${name}/`)) return span
+    }
+    return undefined
+  }
+
+  private onHookEvent(name: string, args: unknown[]): HookEventTrace {
+    if (name.startsWith('lifecycle:') && name !== 'lifecycle:error' && name !== 'lifecycle:rollback') {
+      const ctx = args[0] as LifecycleContext
+      const span = this.startSpan('lifecycle', ctx.phase)
+      return {
+        parent: span,
+        done: failed => this.endSpan(span, failed ? 'error' : ctx.aborted ? 'aborted' : 'ok'),
+      }
+    }
+
+    switch (name) {
+      case 'command:before': {
+        const command = args[0] as string
+        const span = this.startSpan('command', command)
+        this.commands.set(command, [...(this.commands.get(command) || []), span])
+        return { parent: span }
+      }
+      case 'command:after':
+      case 'command:error': {
+        const command = args[0] as string
+        const span = this.commands.get(command)?.pop()
+        const error = name === 'command:error' ? args[1] : undefined
+        return {
+          parent: span,
+          done: () => span && this.endSpan(span, error ? 'error' : 'ok', error),
+        }
+      }
+      case 'pipeline:start': {
+        const ctx = args[0] as PipelineContext
+        const span = this.startSpan('pipeline', ctx.pipelineName, {
+          parent: this.parentOfPipeline(ctx),
+          attributes: ctx.runId ? { runId: ctx.runId } : {},
+        })
+        this.pipelines.set(ctx, span)
+        return { parent: span }
+      }
+      case 'pipeline:abort': {
+        const span = this.pipelines.get(args[0] as PipelineContext)
+        if (span) span.status = 'aborted'
+        return { parent: span }
+      }
+      case 'pipeline:end':
+      case 'pipeline:error': {
+        const span = this.pipelines.get(args[0] as PipelineContext)
+        const aborted = span?.status === 'aborted'
+        return {
+          parent: span,
+          done: () => span && this.endSpan(span, name === 'pipeline:error' ? 'error' : aborted ? 'aborted' : 'ok', args[1]),
+        }
+      }
+      case 'pipeline:stage:before': {
+        const stage = args[0] as PipelineStage
+        const ctx = args[1] as PipelineContext
+        const spans = this.stageSpans(ctx)
+        // A retry continues the span of the first attempt
+        let span = spans.get(stage.name)
+        if (!span || span.end !== undefined) {
+          span = this.startSpan('stage', stage.name, { parent: this.pipelines.get(ctx) })
+          spans.set(stage.name, span)
+        }
+        return { parent: span }
+      }
+      case 'pipeline:stage:after': {
+        const span = this.stageSpans(args[2] as PipelineContext).get((args[0] as PipelineStage).name)
+        return { parent: span, done: () => span && this.endSpan(span) }
+      }
+      case 'pipeline:stage:error': {
+        const span = this.stageSpans(args[2] as PipelineContext).get((args[0] as PipelineStage).name)
+        const attempt = args[3] as StageAttempt
+        if (span && attempt.willRetry) {
+          span.retries = attempt.attempt
+          return { parent: span }
+        }
+        return { parent: span, done: () => span && this.endSpan(span, 'error', args[1]) }
+      }
+      case 'pipeline:stage:skip': {
+        const ctx = args[1] as PipelineContext
+        const span = this.startSpan('stage', (args[0] as PipelineStage).name, { parent: this.pipelines.get(ctx) })
+        this.endSpan(span, 'skipped')
+        return { parent: span }
+      }
+      case 'build:before': {
+        const options = args[0] as BuildOptions
+        const span = this.startSpan('build', args[1] as string, { attributes: { outDir: options.outDir } })
+        this.builds.set(options, span)
+        return { parent: span }
+      }
+      case 'build:after': {
+        const result = args[0] as BuildResult
+        const span = this.builds.get(args[1] as BuildOptions)
+        if (span && result.cache) span.attributes.cached = result.cache.hit
+        return {
+          parent: span,
+          done: () => span && this.endSpan(span, result.success ? 'ok' : 'error', result.errors?.[0]),
+        }
+      }
+      case 'build:error': {
+        const span = this.builds.get(args[1] as BuildOptions)
+        return { parent: span, done: () => span && this.endSpan(span, 'error', args[0]) }
+      }
+      default:
+        return {}
+    }
+  }
+}
+
+export function createTracer(): Tracer {
+  return new Tracer()
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms.toFixed(ms < 10 ? 1 : 0)}ms` : `${(ms / 1000).toFixed(2)}s`
+}
+
+function describeSpan(span: TraceSpan): string {
+  const name = span.kind === 'hook' ? `${span.name} (${span.attributes.handler as string})` : span.name
+  return `${span.kind} ${name}`
+}
+
+function describeOutcome(span: TraceSpan): string {
+  const notes: string[] = []
+  if (span.retries) notes.push(`${span.retries} ${span.retries === 1 ? 'retry' : 'retries'}`)
+  if (span.attributes.cached) notes.push('cached')
+  if (span.status === 'error') notes.push(span.error ? `failed: ${span.error}` : 'failed')
+  if (span.status === 'skipped' || span.status === 'aborted') notes.push(span.status)
+  return notes.join(', ')
+}
+
+/**
+ * Renders spans as an indented tree with durations. Spans whose parent is
+ * not part of `spans` are shown at the top level.
+ */
+export function formatTraceSummary(spans: readonly TraceSpan[]): string {
+  const ids = new Set(spans.map(span => span.id))
+  const children = new Map<number | undefined, TraceSpan[]>()
+  for (const span of spans) {
+    const parentId = span.parentId !== undefined && ids.has(span.parentId) ? span.parentId : undefined
+    children.set(parentId, [...(children.get(parentId) || []), span])
+  }
+
+  const rows: Array<[label: string, duration: string, outcome: string]> = []
+  const visit = (parentId: number | undefined, depth: number) => {
+    for (const span of children.get(parentId) || []) {
+      rows.push([`${'  '.repeat(depth)}${describeSpan(span)}`, formatDuration(span.duration ?? 0), describeOutcome(span)])
+      visit(span.id, depth + 1)
+    }
+  }
+  visit(undefined, 0)
+
+  const labelWidth = Math.max(0, ...rows.map(([label]) => label.length))
+  const durationWidth = Math.max(0, ...rows.map(([, duration]) => duration.length))
+  const total = spans.reduce((end, span) => Math.max(end, span.end ?? span.start), 0)
+    - Math.min(Infinity, ...spans.map(span => span.start))
+
+  return [
+    `Timings (${formatDuration(spans.length > 0 ? total : 0)} total)`,
+    ...rows.map(([label, duration, outcome]) =>
+      `  ${label.padEnd(labelWidth)}  ${duration.padStart(durationWidth)}  ${outcome}`.trimEnd()
+    ),
+  ].join('\n')
+}
+
+/**
+ * Converts spans to Trace Event Format. Spans overlapping without nesting,
+ * such as parallel stages, are spread over separate threads so every
+ * thread holds a properly nested stack.
+ */
+export function toChromeTrace(spans: readonly TraceSpan[], processName = 'nexoc'): { traceEvents: ChromeTraceEvent[] } {
+  const lanes: number[][] = []
+  const events: ChromeTraceEvent[] = [
+    { name: 'process_name', ph: 'M', ts: 0, pid: 1, tid: 0, args: { name: processName } },
+  ]
+
+  const ordered = [...spans].sort((a, b) => a.start - b.start || (b.duration ?? 0) - (a.duration ?? 0))
+  for (const span of ordered) {
+    const end = span.end ?? span.start
+
+    let lane = lanes.findIndex((stack) => {
+      while (stack.length > 0 && stack[stack.length - 1]! <= span.start) stack.pop()
+      return stack.length === 0 || end <= stack[stack.length - 1]!
+    })
+    if (lane === -1) lane = lanes.push([]) - 1
+    lanes[lane]!.push(end)
+
+    events.push({
+      name: span.kind === 'hook' ? `${span.name} (${span.attributes.handler as string})` : span.name,
+      cat: span.kind,
+      ph: 'X',
+      ts: Math.round(span.start * 1000),
+      dur: Math.round((end - span.start) * 1000),
+      pid: 1,
+      tid: lane + 1,
+      args: {
+        ...span.attributes,
+        status: span.status,
+        ...(span.error ? { error: span.error } : {}),
+        ...(span.retries ? { retries: span.retries } : {}),
+      },
+    })
+  }
+
+  return { traceEvents: events }
+}
@@ -1,6 +1,19 @@
-import type { LifecyclePhase, LifecycleContext, NexocHookable } from '@nexoc/types'
+import type {
+  BuiltinLifecyclePhase,
+  LifecyclePhase,
+  LifecycleContext,
+  LifecyclePhaseHandler,
+  LifecyclePhasePosition,
+  LifecyclePhaseRegistry,
+  LifecycleReport,
+  LifecycleRollbackAction,
+  LifecycleRollbackReport,
+  NexocHookable,
+  NexocInstance,
+} from '@nexoc/types'
 
-export const LIFECYCLE_PHASES: LifecyclePhase[] = [
+/** The built-in phases in run order */
+export const LIFECYCLE_PHASES: readonly BuiltinLifecyclePhase[] = [
   'init',
   'validate',
   'prepare',
@@ -11,26 +24,107 @@ export const LIFECYCLE_PHASES: LifecyclePhase[] = [
   'cleanup',
 ]
 
+// Hook names under `lifecycle:` that are not phases
+const RESERVED_PHASE_NAMES = ['error', 'rollback']
+
+const PHASE_NAME_PATTERN = /^[a-z][a-z0-9-]*$/
+
+export function createPhaseRegistry(): LifecyclePhaseRegistry {
+  const phases: LifecyclePhase[] = [...LIFECYCLE_PHASES]
+
+  const has = (phase: string): phase is LifecyclePhase => phases.includes(phase as LifecyclePhase)
+
+  return {
+    register(phase: LifecyclePhase, position: LifecyclePhasePosition = { before: 'finalize' }): void {
+      if (!PHASE_NAME_PATTERN.test(phase) || RESERVED_PHASE_NAMES.includes(phase)) {
+        throw new Error(`Invalid lifecycle phase name: "${phase}"`)
+      }
+      if (has(phase)) {
+        throw new Error(`Lifecycle phase "${phase}" is already registered`)
+      }
+
+      const anchor = position.before ?? position.after
+      if (!anchor || !has(anchor)) {
+        throw new Error(`Cannot register lifecycle phase "${phase}": unknown phase "${anchor}"`)
+      }
+      if (position.after === 'cleanup') {
+        throw new Error(`Cannot register lifecycle phase "${phase}" after "cleanup"`)
+      }
+
+      const index = phases.indexOf(anchor)
+      phases.splice(position.before ? index : index + 1, 0, phase)
+    },
+
+    has,
+
+    list(): LifecyclePhase[] {
+      return [...phases]
+    },
+
+    remove(phase: LifecyclePhase): boolean {
+      if ((LIFECYCLE_PHASES as readonly string[]).includes(phase) || !has(phase)) return false
+      phases.splice(phases.indexOf(phase), 1)
+      return true
+    },
+  }
+}
+
 export function createLifecycleContext<T = unknown>(
   phase: LifecyclePhase,
   data: T,
-  meta: Record<string, unknown> = {}
+  meta: Record<string, unknown> = {},
+  signal: AbortSignal = new AbortController().signal
 ): LifecycleContext<T> {
   return {
     phase,
     data,
-    aborted: false,
+    aborted: signal.aborted,
     meta,
+    signal,
+    onRollback() {
+      throw new Error('Rollback actions can only be registered during a LifecycleManager run')
+    },
   }
 }
 
+function describeAbortReason(reason: unknown): string | undefined {
+  if (reason === undefined) return undefined
+  return reason instanceof Error ? reason.message : String(reason)
+}
+
+export interface LifecycleRunOptions<T> {
+  startPhase?: LifecyclePhase
+  endPhase?: LifecyclePhase
+  skipPhases?: LifecyclePhase[]
+  transform?: (data: T, phase: LifecyclePhase) => T | Promise<T>
+  meta?: Record<string, unknown>
+  /** External signal that aborts the run */
+  signal?: AbortSignal
+}
+
+// Run even after an abort or a failed phase, in this order
+const GUARANTEED_PHASES: LifecyclePhase[] = ['finalize', 'cleanup']
+
+interface RollbackEntry {
+  phase: LifecyclePhase
+  description: string
+  action: LifecycleRollbackAction
+}
+
 export class LifecycleManager<T = unknown> {
+  readonly phases: LifecyclePhaseRegistry
   private hooks: NexocHookable
   private currentPhase: LifecyclePhase | null = null
   private context: LifecycleContext<T> | null = null
+  private controller = new AbortController()
+  private abortReason: string | undefined
+  private handlers = new Map<LifecyclePhase, LifecyclePhaseHandler<T>[]>()
+  private report: LifecycleReport | null = null
+  private rollbackEntries: RollbackEntry[] = []
 
-  constructor(hooks: NexocHookable) {
+  constructor(hooks: NexocHookable, phases: LifecyclePhaseRegistry = createPhaseRegistry()) {
     this.hooks = hooks
+    this.phases = phases
   }
 
   getCurrentPhase(): LifecyclePhase | null {
@@ -41,81 +135,305 @@ export class LifecycleManager<T = unknown> {
     return this.context
   }
 
+  /** Report of the last `run`, also available after it threw */
+  getReport(): LifecycleReport | null {
+    return this.report
+  }
+
+  /**
+   * Registers a handler that runs after the `lifecycle:<phase>` hook.
+   * Handlers run in registration order and each receives the data returned
+   * by the previous one.
+   */
+  on(phase: LifecyclePhase, handler: LifecyclePhaseHandler<T>): () => void {
+    const handlers = this.handlers.get(phase) || []
+    handlers.push(handler)
+    this.handlers.set(phase, handlers)
+
+    return () => {
+      const index = handlers.indexOf(handler)
+      if (index !== -1) handlers.splice(index, 1)
+    }
+  }
+
+  /**
+   * Registers a compensating action for work done outside a phase handler,
+   * e.g. between `runPhase` calls. Defaults to the current phase.
+   */
+  onRollback(
+    description: string,
+    action: LifecycleRollbackAction,
+    phase: LifecyclePhase = this.currentPhase ?? 'init'
+  ): void {
+    this.rollbackEntries.push({ phase, description, action })
+  }
+
+  /**
+   * Runs the registered rollback actions, last registered first, and
+   * forgets them. An action that throws is reported and the rest still run.
+   * `run` does this by itself when a phase fails or the run is aborted.
+   */
+  async rollback(): Promise<LifecycleRollbackReport> {
+    const entries = this.rollbackEntries.reverse()
+    this.rollbackEntries = []
+
+    const startTime = Date.now()
+    const report: LifecycleRollbackReport = { actions: [], success: true, duration: 0 }
+
+    for (const { phase, description, action } of entries) {
+      const actionStart = Date.now()
+      try {
+        await action()
+        report.actions.push({ phase, description, status: 'undone', duration: Date.now() - actionStart })
+      } catch (error) {
+        report.success = false
+        report.actions.push({
+          phase,
+          description,
+          status: 'failed',
+          duration: Date.now() - actionStart,
+          error: error as Error,
+        })
+      }
+    }
+    report.duration = Date.now() - startTime
+
+    if (entries.length > 0) {
+      const context = this.context ?? this.createContext(this.currentPhase ?? 'init', undefined as T, {})
+      await this.hooks.callHook('lifecycle:rollback', context as LifecycleContext, report)
+    }
+
+    return report
+  }
+
   abort(reason?: string): void {
     if (this.context) {
       this.context.aborted = true
       this.context.abortReason = reason
     }
+    this.abortReason = reason
+    this.controller.abort(new Error(reason ? `Lifecycle aborted: ${reason}` : 'Lifecycle aborted'))
+  }
+
+  private createContext(
+    phase: LifecyclePhase,
+    data: T,
+    meta: Record<string, unknown>,
+    signal: AbortSignal = this.controller.signal
+  ): LifecycleContext<T> {
+    const context = createLifecycleContext(phase, data, meta, signal)
+    context.onRollback = (description, action) => this.onRollback(description, action, phase)
+    return context
+  }
+
+  private async enterPhase(context: LifecycleContext<T>): Promise<LifecycleContext<T>> {
+    this.currentPhase = context.phase
+    this.context = context
+
+    try {
+      const hookName = `lifecycle:${context.phase}` as const
+      await this.hooks.callHook(hookName, context as LifecycleContext)
+
+      // `finalize` and `cleanup` enter already aborted, their handlers must still run
+      const abortedOnEntry = context.aborted
+      for (const handler of [...(this.handlers.get(context.phase) || [])]) {
+        if (context.aborted && !abortedOnEntry) break
+        const data = await handler(context.data, context)
+        if (data !== undefined) context.data = data
+      }
+    } catch (error) {
+      await this.hooks.callHook('lifecycle:error', context as LifecycleContext, error as Error)
+      throw error
+    }
+
+    return context
+  }
+
+  private assertRegistered(phase: string, option: string): void {
+    if (!this.phases.has(phase)) {
+      throw new Error(
+        `Unknown lifecycle phase "${phase}" in ${option}, registered phases: ${this.phases.list().join(', ')}`
+      )
+    }
   }
 
   async runPhase(phase: LifecyclePhase, data: T, meta: Record<string, unknown> = {}): Promise<LifecycleContext<T>> {
-    this.currentPhase = phase
-    this.context = createLifecycleContext(phase, data, meta)
-    const hookName = `lifecycle:${phase}` as const
-    await this.hooks.callHook(hookName, this.context as LifecycleContext)
-    return this.context
+    this.assertRegistered(phase, 'runPhase')
+    return this.enterPhase(this.createContext(phase, data, meta))
   }
 
-  async run(
-    initialData: T,
-    options: {
-      startPhase?: LifecyclePhase
-      endPhase?: LifecyclePhase
-      skipPhases?: LifecyclePhase[]
-      transform?: (data: T, phase: LifecyclePhase) => T | Promise<T>
-      meta?: Record<string, unknown>
-    } = {}
-  ): Promise<LifecycleContext<T>> {
+  /**
+   * Runs the phases from `startPhase` to `endPhase`. Once a phase fails or
+   * the run is aborted the remaining phases are skipped, except `finalize`
+   * and `cleanup`: they always run when in range, with a fresh signal and
+   * `aborted` telling how the run ended, after the registered rollback
+   * actions have run. Rethrows the first error at the end; `getReport` lists
+   * what happened to every phase and what was undone.
+   */
+  async run(initialData: T, options: LifecycleRunOptions<T> = {}): Promise<LifecycleContext<T>> {
     const {
       startPhase = 'init',
       endPhase = 'cleanup',
       skipPhases = [],
       transform,
       meta = {},
+      signal,
     } = options
 
-    const startIndex = LIFECYCLE_PHASES.indexOf(startPhase)
-    const endIndex = LIFECYCLE_PHASES.indexOf(endPhase)
+    this.assertRegistered(startPhase, 'startPhase')
+    this.assertRegistered(endPhase, 'endPhase')
+    for (const phase of skipPhases) {
+      this.assertRegistered(phase, 'skipPhases')
+    }
+
+    const phases = this.phases.list()
+    const startIndex = phases.indexOf(startPhase)
+    const endIndex = phases.indexOf(endPhase)
 
-    if (startIndex === -1 || endIndex === -1) {
-      throw new Error(`Invalid lifecycle phase: ${startPhase} or ${endPhase}`)
+    if (startIndex > endIndex) {
+      throw new Error(`Lifecycle startPhase "${startPhase}" comes after endPhase "${endPhase}"`)
+    }
+
+    const range = phases.slice(startIndex, endIndex + 1)
+    const lastPhase = phases[endIndex]
+    const startTime = Date.now()
+    const report: LifecycleReport = { phases: [], success: false, aborted: false, duration: 0 }
+    this.report = report
+
+    const controller = new AbortController()
+    this.controller = controller
+    this.abortReason = undefined
+    const onExternalAbort = () => this.abort(describeAbortReason(signal!.reason))
+    if (signal?.aborted) {
+      onExternalAbort()
+    } else {
+      signal?.addEventListener('abort', onExternalAbort, { once: true })
     }
 
     let data = initialData
-    let lastContext: LifecycleContext<T> | null = null
+    // Assigned inside `execute`, the cast keeps TypeScript from narrowing it to null
+    let lastContext = null as LifecycleContext<T> | null
+    let failure = undefined as { error: unknown } | undefined
+
+    const isAborted = () => Boolean(failure) || controller.signal.aborted || Boolean(lastContext?.aborted)
+
+    let rolledBack = false
+    const rollbackIfAborted = async () => {
+      if (rolledBack || !isAborted()) return
+      rolledBack = true
+      if (this.rollbackEntries.length === 0) return
+
+      try {
+        report.rollback = await this.rollback()
+      } catch (error) {
+        failure ??= { error }
+      }
+    }
+
+    const execute = async (phase: LifecyclePhase, context: LifecycleContext<T>) => {
+      const phaseStart = Date.now()
+      try {
+        lastContext = await this.enterPhase(context)
+        report.phases.push({ phase, status: 'completed', duration: Date.now() - phaseStart })
+      } catch (error) {
+        failure ??= { error }
+        report.phases.push({ phase, status: 'failed', duration: Date.now() - phaseStart, error: error as Error })
+        return
+      }
+
+      data = transform && phase !== lastPhase && !lastContext.aborted
+        ? await transform(lastContext.data, phase)
+        : lastContext.data
+    }
 
-    for (let i = startIndex; i <= endIndex; i++) {
-      const phase = LIFECYCLE_PHASES[i]!
+    for (const phase of range) {
+      await rollbackIfAborted()
 
       if (skipPhases.includes(phase)) {
+        report.phases.push({ phase, status: 'skipped', duration: 0, reason: 'skipPhases' })
         continue
       }
 
-      lastContext = await this.runPhase(phase, data, meta)
+      if (GUARANTEED_PHASES.includes(phase)) {
+        const aborted = isAborted()
+        // The run's signal may already be aborted, give these phases a usable one
+        if (aborted && this.controller === controller) this.controller = new AbortController()
 
-      if (lastContext.aborted) {
-        break
+        const context = this.createContext(phase, data, meta)
+        context.aborted = aborted
+        context.abortReason = aborted
+          ? lastContext?.abortReason ?? this.abortReason ?? describeAbortReason(failure?.error)
+          : undefined
+        await execute(phase, context)
+        continue
       }
 
-      if (transform && i < endIndex) {
-        data = await transform(lastContext.data, phase)
-      } else {
-        data = lastContext.data
+      if (isAborted()) {
+        report.phases.push({ phase, status: 'skipped', duration: 0, reason: failure ? 'failed' : 'aborted' })
+        continue
       }
+
+      await execute(phase, this.createContext(phase, data, meta, controller.signal))
     }
 
-    return lastContext || createLifecycleContext('init', initialData, meta)
+    await rollbackIfAborted()
+    signal?.removeEventListener('abort', onExternalAbort)
+
+    report.aborted = !failure && (controller.signal.aborted || report.phases.some(
+      result => result.status === 'skipped' && result.reason === 'aborted'
+    ))
+    report.abortReason = report.aborted ? this.abortReason ?? lastContext?.abortReason : undefined
+    report.error = failure?.error as Error | undefined
+    report.success = !failure && !report.aborted
+    report.duration = Date.now() - startTime
+    // Nothing to undo after a successful run, or after a rollback
+    this.rollbackEntries = []
+
+    if (failure) throw failure.error
+    return lastContext || this.createContext('init', initialData, meta)
   }
 
   reset(): void {
     this.currentPhase = null
     this.context = null
+    this.controller = new AbortController()
+    this.abortReason = undefined
+    this.report = null
+    this.rollbackEntries = []
   }
 }
 
-export function createLifecycle<T = unknown>(hooks: NexocHookable): LifecycleManager<T> {
-  return new LifecycleManager<T>(hooks)
+/**
+ * Creates a lifecycle on the hooks and phase registry of `nexoc`, so it runs
+ * the custom phases plugins registered on the instance.
+ */
+export function createLifecycle<T = unknown>(nexoc: NexocInstance): LifecycleManager<T>
+/** Lifecycles created with the same `phases` registry share their custom phases */
+export function createLifecycle<T = unknown>(hooks: NexocHookable, phases?: LifecyclePhaseRegistry): LifecycleManager<T>
+export function createLifecycle<T = unknown>(
+  target: NexocInstance | NexocHookable,
+  phases?: LifecyclePhaseRegistry
+): LifecycleManager<T> {
+  if ('phases' in target) {
+    return new LifecycleManager<T>(target.hooks, target.phases)
+  }
+  return new LifecycleManager<T>(target, phases)
 }
 
-export type { LifecyclePhase, LifecycleContext } from '@nexoc/types'
+export type {
+  BuiltinLifecyclePhase,
+  CustomLifecyclePhases,
+  LifecyclePhase,
+  LifecyclePhasePosition,
+  LifecyclePhaseRegistry,
+  LifecyclePhaseHooks,
+  LifecycleContext,
+  LifecyclePhaseHandler,
+  LifecyclePhaseStatus,
+  LifecyclePhaseResult,
+  LifecycleReport,
+  LifecycleRollbackAction,
+  LifecycleRollbackResult,
+  LifecycleRollbackReport,
+} from '@nexoc/types'
 
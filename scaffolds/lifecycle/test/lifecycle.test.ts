@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { LifecyclePhase, NexocHookable } from '@nexoc/types'
+import { createLifecycle, createPhaseRegistry, LIFECYCLE_PHASES } from '../src'
+
+function createHooks() {
+  return { callHook: vi.fn(async () => {}) }
+}
+
+describe('guaranteed phases', () => {
+  it('runs finalize and cleanup after a failed phase and skips the rest', async () => {
+    const lifecycle = createLifecycle(createHooks() as unknown as NexocHookable)
+    const finalize = vi.fn()
+    lifecycle.on('prepare', () => { throw new Error('prepare failed') })
+    lifecycle.on('finalize', (_, ctx) => { finalize(ctx.aborted, ctx.abortReason) })
+
+    await expect(lifecycle.run(undefined)).rejects.toThrow('prepare failed')
+
+    expect(finalize).toHaveBeenCalledWith(true, 'prepare failed')
+    expect(lifecycle.getReport()!.phases.map(result => `${result.phase}:${result.status}`)).toEqual([
+      'init:completed',
+      'validate:completed',
+      'prepare:failed',
+      'execute:skipped',
+      'transform:skipped',
+      'generate:skipped',
+      'finalize:completed',
+      'cleanup:completed',
+    ])
+  })
+
+  it('runs finalize and cleanup after an abort with a signal that is not aborted', async () => {
+    const lifecycle = createLifecycle(createHooks() as unknown as NexocHookable)
+    const signals: boolean[] = []
+    lifecycle.on('execute', () => lifecycle.abort('stopped'))
+    lifecycle.on('cleanup', (_, ctx) => { signals.push(ctx.aborted, ctx.signal.aborted) })
+
+    await lifecycle.run(undefined)
+
+    expect(signals).toEqual([true, false])
+    expect(lifecycle.getReport()).toMatchObject({ success: false, aborted: true, abortReason: 'stopped' })
+  })
+})
+
+describe('rollback', () => {
+  it('undoes completed work in reverse order when a later phase fails', async () => {
+    const hooks = createHooks()
+    const lifecycle = createLifecycle(hooks as unknown as NexocHookable)
+    const undone: string[] = []
+    lifecycle.on('prepare', (_, ctx) => { ctx.onRollback('remove dir', () => { undone.push('dir') }) })
+    lifecycle.on('execute', (_, ctx) => { ctx.onRollback('remove file', () => { undone.push('file') }) })
+    lifecycle.on('generate', () => { throw new Error('generate failed') })
+
+    await expect(lifecycle.run(undefined)).rejects.toThrow('generate failed')
+
+    expect(undone).toEqual(['file', 'dir'])
+    expect(lifecycle.getReport()!.rollback).toMatchObject({
+      success: true,
+      actions: [
+        { phase: 'execute', description: 'remove file', status: 'undone' },
+        { phase: 'prepare', description: 'remove dir', status: 'undone' },
+      ],
+    })
+    expect(hooks.callHook).toHaveBeenCalledWith('lifecycle:rollback', expect.anything(), lifecycle.getReport()!.rollback)
+  })
+
+  it('keeps going when a rollback action throws', async () => {
+    const lifecycle = createLifecycle(createHooks() as unknown as NexocHookable)
+    const undone: string[] = []
+    lifecycle.onRollback('first', () => { undone.push('first') })
+    lifecycle.onRollback('broken', () => { throw new Error('cannot undo') })
+
+    const report = await lifecycle.rollback()
+
+    expect(undone).toEqual(['first'])
+    expect(report.success).toBe(false)
+    expect(report.actions.map(action => action.status)).toEqual(['failed', 'undone'])
+  })
+
+  it('drops the actions of a successful run', async () => {
+    const lifecycle = createLifecycle(createHooks() as unknown as NexocHookable)
+    const undo = vi.fn()
+    lifecycle.on('execute', (_, ctx) => { ctx.onRollback('undo', undo) })
+
+    await lifecycle.run(undefined)
+
+    expect(await lifecycle.rollback()).toMatchObject({ actions: [] })
+    expect(undo).not.toHaveBeenCalled()
+  })
+})
+
+describe('phase registry', () => {
+  it('inserts custom phases before finalize by default', () => {
+    const phases = createPhaseRegistry()
+    phases.register('deploy' as LifecyclePhase)
+    phases.register('audit' as LifecyclePhase, { after: 'validate' })
+
+    expect(phases.list()).toEqual([
+      'init', 'validate', 'audit', 'prepare', 'execute', 'transform', 'generate', 'deploy', 'finalize', 'cleanup',
+    ])
+  })
+
+  it('rejects invalid, duplicate and misplaced phases', () => {
+    const phases = createPhaseRegistry()
+
+    expect(() => phases.register('Deploy' as LifecyclePhase)).toThrow('Invalid lifecycle phase name')
+    expect(() => phases.register('error' as LifecyclePhase)).toThrow('Invalid lifecycle phase name')
+    expect(() => phases.register('init' as LifecyclePhase)).toThrow('already registered')
+    expect(() => phases.register('late' as LifecyclePhase, { after: 'cleanup' })).toThrow('after "cleanup"')
+  })
+
+  it('only removes custom phases', () => {
+    const phases = createPhaseRegistry()
+    phases.register('deploy' as LifecyclePhase)
+
+    expect(phases.remove('init')).toBe(false)
+    expect(phases.remove('deploy' as LifecyclePhase)).toBe(true)
+    expect(phases.list()).toEqual(LIFECYCLE_PHASES)
+  })
+})
@@ -0,0 +1,268 @@
+import { format as formatArgs } from 'node:util'
+import type {
+  LogLevel,
+  LogFormat,
+  Logger,
+  Spinner,
+  ProgressBar,
+  NexocHookable,
+  PipelineStage,
+  StageAttempt,
+  LifecycleContext,
+  LifecycleRollbackReport,
+  BuildResult,
+} from '@nexoc/types'
+
+export const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+}
+
+type MessageKind = 'debug' | 'info' | 'success' | 'warn' | 'error'
+
+const KIND_LEVEL: Record<MessageKind, LogLevel> = {
+  debug: 'debug',
+  info: 'info',
+  success: 'info',
+  warn: 'warn',
+  error: 'error',
+}
+
+const SYMBOLS: Record<MessageKind, string> = {
+  debug: '⚙',
+  info: 'ℹ',
+  success: '✔',
+  warn: '⚠',
+  error: '✖',
+}
+
+const COLORS: Record<MessageKind, number> = {
+  debug: 90,
+  info: 36,
+  success: 32,
+  warn: 33,
+  error: 31,
+}
+
+const SPINNER_FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏']
+
+export interface LoggerOptions {
+  level?: LogLevel
+  format?: LogFormat
+  tag?: string
+  stdout?: NodeJS.WriteStream
+  stderr?: NodeJS.WriteStream
+  colors?: boolean
+}
+
+interface LoggerState {
+  level: LogLevel
+  format: LogFormat
+  stdout: NodeJS.WriteStream
+  stderr: NodeJS.WriteStream
+  colors: boolean
+}
+
+function paint(state: LoggerState, code: number, text: string): string {
+  return state.colors ? `\x1b[${code}m${text}\x1b[39m` : text
+}
+
+function isInteractive(state: LoggerState): boolean {
+  return state.format === 'text' && Boolean(state.stdout.isTTY)
+}
+
+function write(state: LoggerState, kind: MessageKind, tag: string | undefined, message: string | Error, args: unknown[]): void {
+  if (LOG_LEVELS[KIND_LEVEL[kind]] < LOG_LEVELS[state.level]) return
+
+  const stream = kind === 'warn' || kind === 'error' ? state.stderr : state.stdout
+  const error = message instanceof Error ? message : undefined
+  const text = formatArgs(error ? error.message : message, ...args)
+
+  if (state.format === 'json') {
+    const entry: Record<string, unknown> = {
+      time: new Date().toISOString(),
+      level: kind,
+      message: text,
+    }
+    if (tag) entry.tag = tag
+    if (error?.stack) entry.stack = error.stack
+    stream.write(`${JSON.stringify(entry)}\n`)
+    return
+  }
+
+  const prefix = paint(state, COLORS[kind], SYMBOLS[kind])
+  const label = tag ? `${paint(state, 90, `[${tag}]`)} ` : ''
+  const stack = error?.stack && state.level === 'debug' ? `\n${error.stack}` : ''
+  stream.write(`${prefix} ${label}${text}${stack}\n`)
+}
+
+function createSpinner(state: LoggerState, logger: Logger, initialText: string): Spinner {
+  let text = initialText
+  let frame = 0
+  let timer: NodeJS.Timeout | undefined
+
+  const clear = () => {
+    if (timer) {
+      clearInterval(timer)
+      timer = undefined
+      state.stdout.write('\r\x1b[2K')
+    }
+  }
+
+  if (isInteractive(state) && LOG_LEVELS[state.level] <= LOG_LEVELS.info) {
+    timer = setInterval(() => {
+      frame = (frame + 1) % SPINNER_FRAMES.length
+      state.stdout.write(`\r\x1b[2K${paint(state, 36, SPINNER_FRAMES[frame]!)} ${text}`)
+    }, 80)
+    timer.unref()
+  } else {
+    logger.info(text)
+  }
+
+  return {
+    update(next) {
+      text = next
+      if (!timer) logger.debug(next)
+    },
+    succeed(final) {
+      clear()
+      logger.success(final || text)
+    },
+    fail(final) {
+      clear()
+      logger.error(final || text)
+    },
+    stop() {
+      clear()
+    },
+  }
+}
+
+function createProgress(state: LoggerState, logger: Logger, total: number, initialText = ''): ProgressBar {
+  let current = 0
+  let text = initialText
+  const interactive = isInteractive(state) && LOG_LEVELS[state.level] <= LOG_LEVELS.info
+
+  const render = () => {
+    const width = 20
+    const filled = total > 0 ? Math.round((current / total) * width) : width
+    const bar = `${'█'.repeat(filled)}${'░'.repeat(width - filled)}`
+    state.stdout.write(`\r\x1b[2K${bar} ${current}/${total} ${text}`)
+  }
+
+  if (interactive) render()
+
+  return {
+    tick(amount = 1, next) {
+      current = Math.min(total, current + amount)
+      if (next !== undefined) text = next
+      if (interactive) {
+        render()
+      } else {
+        logger.debug(`${current}/${total} ${text}`.trim())
+      }
+    },
+    done(final) {
+      current = total
+      if (interactive) state.stdout.write('\r\x1b[2K')
+      logger.success(final || text || `${total}/${total}`)
+    },
+  }
+}
+
+function buildLogger(state: LoggerState, tag?: string): Logger {
+  const logger: Logger = {
+    level: state.level,
+    tag,
+    debug: (message, ...args) => write(state, 'debug', tag, message, args),
+    info: (message, ...args) => write(state, 'info', tag, message, args),
+    success: (message, ...args) => write(state, 'success', tag, message, args),
+    warn: (message, ...args) => write(state, 'warn', tag, message, args),
+    error: (message, ...args) => write(state, 'error', tag, message, args),
+    child: childTag => buildLogger(state, tag ? `${tag}:${childTag}` : childTag),
+    spinner: text => createSpinner(state, logger, text),
+    progress: (total, text) => createProgress(state, logger, total, text),
+  }
+  return logger
+}
+
+export function createLogger(options: LoggerOptions = {}): Logger {
+  const stdout = options.stdout || process.stdout
+  const format = options.format || 'text'
+
+  return buildLogger({
+    level: options.level || 'info',
+    format,
+    stdout,
+    stderr: options.stderr || process.stderr,
+    colors: options.colors ?? (format === 'text' && Boolean(stdout.isTTY) && !process.env.NO_COLOR),
+  }, options.tag)
+}
+
+export function isLevelEnabled(logger: Logger, level: LogLevel): boolean {
+  return LOG_LEVELS[level] >= LOG_LEVELS[logger.level]
+}
+
+function describeHookEvent(name: string, args: unknown[]): string | undefined {
+  if (name === 'lifecycle:error') {
+    return `lifecycle phase "${(args[0] as LifecycleContext).phase}" failed: ${(args[1] as Error).message}`
+  }
+  if (name === 'lifecycle:rollback') {
+    const report = args[1] as LifecycleRollbackReport
+    const failed = report.actions.filter(action => action.status === 'failed').length
+    return `lifecycle rolled back ${report.actions.length} action(s) after phase "${(args[0] as LifecycleContext).phase}"`
+      + (failed ? `, ${failed} failed` : '')
+  }
+  if (name.startsWith('lifecycle:')) {
+    const ctx = args[0] as LifecycleContext
+    return `lifecycle phase "${ctx.phase}"${ctx.aborted ? ' (aborted)' : ''}`
+  }
+
+  switch (name) {
+    case 'pipeline:start':
+    case 'pipeline:end':
+      return `${name} ${(args[0] as { pipelineName: string }).pipelineName}`
+    case 'pipeline:abort': {
+      const reason = args[1] instanceof Error ? `: ${args[1].message}` : ''
+      return `${name} ${(args[0] as { pipelineName: string }).pipelineName}${reason}`
+    }
+    case 'pipeline:error':
+      return `${name} ${(args[0] as { pipelineName: string }).pipelineName}: ${(args[1] as Error).message}`
+    case 'pipeline:checkpoint':
+      return `${name} ${(args[0] as { pipelineName: string }).pipelineName} saved to ${args[1] as string}`
+    case 'pipeline:stage:before':
+    case 'pipeline:stage:after':
+    case 'pipeline:stage:skip':
+      return `${name} ${(args[0] as PipelineStage).name}`
+    case 'pipeline:stage:error': {
+      const attempt = args[3] as StageAttempt | undefined
+      const retry = attempt?.willRetry ? `, retrying (attempt ${attempt.attempt}/${attempt.attempts})` : ''
+      return `${name} ${(args[0] as PipelineStage).name}: ${(args[1] as Error).message}${retry}`
+    }
+    case 'build:before':
+      return `${name} ${(args[0] as { rootDir: string }).rootDir}`
+    case 'build:after': {
+      const result = args[0] as BuildResult
+      return `${name} ${result.success ? 'succeeded' : 'failed'} in ${result.duration}ms (${result.outputs.length} outputs)`
+    }
+    case 'build:error':
+      return `${name} ${(args[0] as Error).message}`
+    default:
+      return undefined
+  }
+}
+
+export function attachHookLogger(hooks: NexocHookable, logger: Logger): () => void {
+  return hooks.beforeEach((event) => {
+    // createNexocHooks passes only the handler arguments, without the hook name
+    const message = describeHookEvent(event.name, event.args)
+    if (message) {
+      logger.debug(message)
+    }
+  })
+}
+
+export type { LogLevel, LogFormat, Logger, Spinner, ProgressBar } from '@nexoc/types'
@@ -1,32 +1,162 @@
-import { defineCommand, runMain } from 'citty'
-import { createNexoc, discoverCommands } from '@nexoc/core'
+import { writeFileSync } from 'node:fs'
+import path from 'node:path'
+import { defineCommand, runCommand, runMain, showUsage } from 'citty'
+import { loadNexoc, discoverCommands } from '@nexoc/core'
+import type { LoadConfigOptions } from '@nexoc/core'
 import { toCittyCommand } from '@nexoc/commands'
-import type { Command } from '@nexoc/types'
-import type { SubCommandsDef } from 'citty'
+import type { CommandExecutorOptions } from '@nexoc/commands'
+import { createTracer, formatTraceSummary, toChromeTrace } from '@nexoc/hooks'
+import type { Command, NexocConfig, NexocHookable, PipelinePlanFormat } from '@nexoc/types'
+import type { CommandDef, SubCommandsDef } from 'citty'
+import { builtinCommands } from './commands'
 
-const nexoc = createNexoc({
-  logLevel: 'info',
-})
+const GLOBAL_FLAGS = ['config', 'log-level', 'root-dir', 'env', 'resume', 'dry-run', 'timings', 'trace'] as const
+
+type GlobalFlag = typeof GLOBAL_FLAGS[number]
+
+// Flags that never consume the next argument; `--dry-run=mermaid` picks a plan format
+const BOOLEAN_GLOBAL_FLAGS: readonly GlobalFlag[] = ['dry-run', 'timings']
+
+function extractGlobalFlags(argv: string[]): { flags: Partial<Record<GlobalFlag, string>>; rest: string[] } {
+  const flags: Partial<Record<GlobalFlag, string>> = {}
+  const rest: string[] = []
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!
+    const [name, inlineValue] = arg.startsWith('--') ? arg.slice(2).split('=') : []
+    const flag = GLOBAL_FLAGS.find(f => f === name)
+
+    if (!flag) {
+      rest.push(arg)
+    } else if (BOOLEAN_GLOBAL_FLAGS.includes(flag)) {
+      flags[flag] = inlineValue ?? ''
+    } else {
+      // Never take the next flag as the value
+      const value = inlineValue ?? (argv[i + 1]?.startsWith('-') ? undefined : argv[++i])
+      if (!value) {
+        throw new Error(`Missing value for --${flag}`)
+      }
+      flags[flag] = value
+    }
+  }
+
+  return { flags, rest }
+}
+
+function toLoadOptions(flags: Partial<Record<GlobalFlag, string>>): LoadConfigOptions {
+  const overrides: Partial<NexocConfig> = {}
+
+  if (flags['log-level']) {
+    overrides.logLevel = flags['log-level'] as NexocConfig['logLevel']
+  }
+  if (flags['root-dir']) {
+    overrides.rootDir = flags['root-dir']
+  }
+
+  return {
+    configFile: flags.config,
+    envName: flags.env,
+    overrides,
+  }
+}
 
 async function loadCommands(): Promise<Command[]> {
   const discovered = await discoverCommands()
-  return discovered.map(d => d.command)
+  return [...builtinCommands, ...discovered.map(d => d.command)]
+}
+
+/**
+ * Aborts the returned signal on the first SIGINT or SIGTERM so commands can
+ * wind down; a second signal exits immediately.
+ */
+function createShutdownSignal(): AbortSignal {
+  const controller = new AbortController()
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (controller.signal.aborted) {
+      process.exit(130)
+    }
+    controller.abort(new Error(`Interrupted by ${signal}`))
+  }
+
+  process.on('SIGINT', onSignal)
+  process.on('SIGTERM', onSignal)
+  return controller.signal
+}
+
+/**
+ * `--timings` prints a span summary and `--trace <file>` writes Chrome
+ * trace-event JSON. Both happen on exit, since citty exits the process
+ * when a command fails.
+ */
+function setupTracing(hooks: NexocHookable, flags: Partial<Record<GlobalFlag, string>>): void {
+  const timings = flags.timings !== undefined
+  if (!timings && !flags.trace) return
+
+  const tracer = createTracer()
+  tracer.attach(hooks)
+
+  process.once('exit', () => {
+    tracer.endOpenSpans()
+    if (timings) {
+      process.stderr.write(`${formatTraceSummary(tracer.spans)}\n`)
+    }
+    if (flags.trace) {
+      writeFileSync(path.resolve(flags.trace), JSON.stringify(toChromeTrace(tracer.spans)))
+    }
+  })
+}
+
+/**
+ * Runs the CLI like citty's `runMain`, except that a failing command does
+ * not exit the process before `close` has disposed the plugins.
+ */
+async function runCli(mainCommand: CommandDef, subCommands: SubCommandsDef, rawArgs: string[], close: () => Promise<void>) {
+  if (rawArgs.includes('--help') || rawArgs.includes('-h') || (rawArgs.length === 1 && rawArgs[0] === '--version')) {
+    await close()
+    await runMain(mainCommand, { rawArgs })
+    return
+  }
+
+  try {
+    await runCommand(mainCommand, { rawArgs })
+  } catch (error) {
+    // citty throws a CLIError for usage mistakes such as an unknown command
+    if ((error as Error).name === 'CLIError') {
+      const name = rawArgs.find(arg => !arg.startsWith('-'))
+      const command = name ? subCommands[name] as CommandDef | undefined : undefined
+      await (command ? showUsage(command, mainCommand) : showUsage(mainCommand))
+    }
+    console.error((error as Error).message)
+    await close()
+    process.exit(1)
+  }
+
+  await close()
 }
 
 async function main() {
+  const { flags, rest } = extractGlobalFlags(process.argv.slice(2))
+  const nexoc = await loadNexoc(toLoadOptions(flags))
   const commands = await loadCommands()
+  setupTracing(nexoc.hooks, flags)
 
   for (const command of commands) {
     nexoc.registerCommand(command)
   }
 
+  const executorOptions: CommandExecutorOptions = {
+    signal: createShutdownSignal(),
+    resume: flags.resume,
+    dryRun: flags['dry-run'] === undefined ? undefined : (flags['dry-run'] || 'text') as PipelinePlanFormat,
+  }
   const subCommands: SubCommandsDef = {}
   for (const command of commands) {
-    subCommands[command.meta.name] = toCittyCommand(command, nexoc)
-    
+    subCommands[command.meta.name] = toCittyCommand(command, nexoc, executorOptions)
+
     if (command.meta.aliases) {
       for (const alias of command.meta.aliases) {
-        subCommands[alias] = toCittyCommand(command, nexoc)
+        subCommands[alias] = toCittyCommand(command, nexoc, executorOptions)
       }
     }
   }
@@ -40,7 +170,10 @@ async function main() {
     subCommands,
   })
 
-  await runMain(mainCommand)
+  await runCli(mainCommand, subCommands, rest, () => nexoc.close())
 }
 
-main()
+main().catch((error: Error) => {
+  console.error(error.message)
+  process.exit(1)
+})
@@ -0,0 +1,71 @@
+import path from 'node:path'
+import type { Command } from '@nexoc/types'
+import {
+  adapterOptions,
+  createCommandBuildManager,
+  resolveBuildOptions,
+  resolveBuildTargets,
+  printBuildResult,
+  DEFAULT_OUT_DIR,
+} from './utils'
+import type { BuildCommandOptions } from './utils'
+
+export const buildCommand: Command = {
+  meta: {
+    name: 'build',
+    description: 'Build the project with a build adapter',
+    group: 'build',
+  },
+  options: {
+    ...adapterOptions,
+    production: {
+      type: 'boolean',
+      description: 'Build for production',
+      alias: 'p',
+    },
+    target: {
+      type: 'string',
+      description: 'Adapter target, e.g. vercel, netlify or cloudflare for serverless',
+      alias: 't',
+    },
+    bestEffort: {
+      type: 'boolean',
+      description: 'Keep building independent targets after one fails',
+    },
+    cache: {
+      type: 'boolean',
+      description: 'Reuse outputs from the build cache, disable with --no-cache',
+      default: true,
+    },
+  },
+  async run(ctx) {
+    const flags = ctx.options as BuildCommandOptions
+    const manager = createCommandBuildManager(ctx, { cache: flags.cache })
+    const targets = resolveBuildTargets(ctx)
+
+    let result
+    let label: string
+    if (targets) {
+      label = targets.map(target => target.name || target.adapter).join(', ')
+      result = await manager.buildAll(targets, {
+        rootDir: path.resolve(ctx.nexoc.config.rootDir || process.cwd()),
+        outDir: flags.outDir || DEFAULT_OUT_DIR,
+        production: flags.production,
+        target: flags.target,
+        cache: flags.cache,
+      }, {
+        policy: flags.bestEffort ? 'best-effort' : 'fail-fast',
+      })
+    } else {
+      const adapter = manager.getAdapter(flags.adapter)
+      label = adapter.name
+      result = await manager.build(resolveBuildOptions(ctx, adapter.name), adapter.name)
+    }
+
+    printBuildResult(ctx.logger, result, label)
+
+    if (!result.success) {
+      process.exitCode = 1
+    }
+  },
+}
@@ -0,0 +1,50 @@
+import path from 'node:path'
+import type { Command } from '@nexoc/types'
+import { adapterOptions, createCommandBuildManager, createCommandBuildCache, resolveBuildOptions } from './utils'
+import type { BuildCommandOptions } from './utils'
+
+interface CleanCommandOptions extends BuildCommandOptions {
+  pruneCache?: boolean
+}
+
+export const cleanCommand: Command = {
+  meta: {
+    name: 'clean',
+    description: 'Remove build output',
+    group: 'build',
+  },
+  options: {
+    ...adapterOptions,
+    cache: {
+      type: 'boolean',
+      description: 'Also remove the build cache',
+    },
+    pruneCache: {
+      type: 'boolean',
+      description: 'Only prune the build cache using the configured maxSize and maxAge',
+    },
+  },
+  async run(ctx) {
+    const flags = ctx.options as CleanCommandOptions
+    const rootDir = path.resolve(ctx.nexoc.config.rootDir || process.cwd())
+    const cache = createCommandBuildCache(ctx)
+
+    if (flags.pruneCache) {
+      const result = await cache.prune(rootDir)
+      ctx.logger.success(`Pruned ${result.removed.length} cache entries, ${result.size} bytes left`)
+      return
+    }
+
+    const manager = createCommandBuildManager(ctx)
+    const adapter = manager.getAdapter(flags.adapter)
+    const options = resolveBuildOptions(ctx, adapter.name)
+
+    await manager.clean(options, adapter.name)
+    ctx.logger.success(`Removed ${path.relative(process.cwd(), path.resolve(options.rootDir, options.outDir)) || '.'}`)
+
+    if (flags.cache) {
+      await cache.clear(rootDir)
+      ctx.logger.success(`Removed ${path.relative(process.cwd(), cache.getDir(rootDir)) || '.'}`)
+    }
+  },
+}
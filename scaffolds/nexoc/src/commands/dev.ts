@@ -0,0 +1,49 @@
+import type { Command, DevOptions } from '@nexoc/types'
+import { adapterOptions, createCommandBuildManager, resolveBuildOptions } from './utils'
+import type { BuildCommandOptions } from './utils'
+
+interface DevCommandOptions extends BuildCommandOptions {
+  debounce?: number
+  ignore?: string
+}
+
+export const devCommand: Command = {
+  meta: {
+    name: 'dev',
+    description: 'Rebuild the project on file changes',
+    group: 'build',
+  },
+  options: {
+    ...adapterOptions,
+    target: {
+      type: 'string',
+      description: 'Adapter target, e.g. vercel, netlify or cloudflare for serverless',
+      alias: 't',
+    },
+    debounce: {
+      type: 'number',
+      description: 'Milliseconds to wait for further changes before rebuilding (default: 100)',
+    },
+    ignore: {
+      type: 'string',
+      description: 'Comma-separated globs to ignore in addition to node_modules, .git and the output dir',
+    },
+  },
+  async run(ctx) {
+    const flags = ctx.options as DevCommandOptions
+    const manager = createCommandBuildManager(ctx)
+    const adapter = manager.getAdapter(flags.adapter)
+
+    const options: DevOptions = {
+      ...resolveBuildOptions(ctx, adapter.name),
+      debounce: flags.debounce,
+      ignore: flags.ignore?.split(',').map(glob => glob.trim()).filter(Boolean),
+      signal: ctx.signal,
+    }
+
+    ctx.logger.info(`Watching ${options.rootDir} with "${adapter.name}" (Ctrl+C to stop)`)
+    const server = await manager.dev(options, adapter.name)
+    await server.closed
+    ctx.logger.info('Dev server stopped')
+  },
+}
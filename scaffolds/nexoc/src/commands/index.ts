@@ -0,0 +1,10 @@
+import type { Command } from '@nexoc/types'
+import { buildCommand } from './build'
+import { devCommand } from './dev'
+import { cleanCommand } from './clean'
+
+export const builtinCommands: Command[] = [buildCommand, devCommand, cleanCommand]
+
+export { buildCommand, devCommand, cleanCommand }
+export { resolveBuildOptions, printBuildResult } from './utils'
+export { runCommandPipeline } from './pipeline'
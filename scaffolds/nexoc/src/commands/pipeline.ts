@@ -0,0 +1,38 @@
+import { getErrorRunId, renderPlan } from '@nexoc/pipeline'
+import type { Pipeline } from '@nexoc/pipeline'
+import type { CommandContext, PipelinePlanOptions } from '@nexoc/types'
+
+/**
+ * Runs a command's pipeline the way the global flags ask for: `--dry-run`
+ * prints the plan without executing any stage and resolves undefined,
+ * `--resume <runId>` continues a checkpointed run. The command needs
+ * `meta.supportsDryRun` and `meta.supportsResume` for these. When a checkpointed run does not
+ * complete, logs the id to resume it with.
+ */
+export async function runCommandPipeline<TInput, TOutput>(
+  ctx: CommandContext,
+  pipeline: Pipeline<TInput, TOutput>,
+  input: TInput,
+  planOptions: Omit<PipelinePlanOptions, 'resume'> = {}
+): Promise<TOutput | undefined> {
+  if (ctx.dryRun) {
+    const plan = await pipeline.plan({ ...planOptions, resume: ctx.resume })
+    process.stdout.write(`${renderPlan(plan, ctx.dryRun)}\n`)
+    return undefined
+  }
+
+  const logResume = (runId: string) => ctx.logger.info(`Run ${runId} did not complete, resume with --resume ${runId}`)
+
+  try {
+    const { result, context } = ctx.resume
+      ? await pipeline.resume(ctx.resume, { signal: ctx.signal })
+      : await pipeline.execute(input, { signal: ctx.signal })
+
+    if (context.aborted && context.runId) logResume(context.runId)
+    return result
+  } catch (error) {
+    const runId = getErrorRunId(error)
+    if (runId) logResume(runId)
+    throw error
+  }
+}
@@ -0,0 +1,166 @@
+import { existsSync, statSync } from 'node:fs'
+import path from 'node:path'
+import { createBuildManager, BuildCache } from '@nexoc/adapters'
+import type { BuildManager } from '@nexoc/adapters'
+import { getConfigSection } from '@nexoc/core'
+import type {
+  BuildOptions,
+  BuildResult,
+  BuildTarget,
+  BuildTargetResult,
+  CommandContext,
+  CommandOptions,
+  Logger,
+} from '@nexoc/types'
+
+export const DEFAULT_OUT_DIR = 'dist'
+
+export interface BuildCommandOptions {
+  adapter?: string
+  outDir?: string
+  production?: boolean
+  target?: string
+  bestEffort?: boolean
+  cache?: boolean
+}
+
+export const adapterOptions: CommandOptions = {
+  adapter: {
+    type: 'string',
+    description: 'Build adapter to use (default: config.defaultAdapter)',
+    alias: 'a',
+  },
+  outDir: {
+    type: 'string',
+    description: `Output directory, relative to the root dir (default: ${DEFAULT_OUT_DIR})`,
+    alias: 'o',
+  },
+}
+
+export function createCommandBuildManager(ctx: CommandContext, options: { cache?: boolean } = {}): BuildManager {
+  const { nexoc } = ctx
+  const manager = createBuildManager(nexoc.hooks, nexoc.adapters, nexoc.config.defaultAdapter, ctx.logger)
+
+  if (options.cache && nexoc.config.cache !== false) {
+    manager.setCache(createCommandBuildCache(ctx))
+  }
+
+  return manager
+}
+
+export function createCommandBuildCache(ctx: CommandContext): BuildCache {
+  const { cache } = ctx.nexoc.config
+  return new BuildCache({ ...(cache || {}), config: ctx.nexoc.config })
+}
+
+function getAdapterSection(ctx: CommandContext, adapterName: string): Partial<BuildOptions> {
+  return (getConfigSection(ctx.nexoc.config, adapterName) || {}) as Partial<BuildOptions>
+}
+
+/**
+ * Resolves BuildOptions from the adapter's config section, with command
+ * line flags taking precedence.
+ */
+export function resolveBuildOptions(ctx: CommandContext, adapterName: string): BuildOptions {
+  const options = ctx.options as BuildCommandOptions
+  const base = getAdapterSection(ctx, adapterName)
+
+  const buildOptions: BuildOptions = {
+    ...base,
+    rootDir: path.resolve(ctx.nexoc.config.rootDir || process.cwd()),
+    outDir: options.outDir || base.outDir || DEFAULT_OUT_DIR,
+  }
+
+  if (options.production !== undefined) buildOptions.production = options.production
+  if (options.target) buildOptions.target = options.target
+  if (options.cache === false) buildOptions.cache = false
+
+  return buildOptions
+}
+
+/**
+ * Targets come from a comma-separated `--adapter` list or, when no adapter
+ * is given, from `config.targets`. Returns undefined for a single build.
+ */
+export function resolveBuildTargets(ctx: CommandContext): BuildTarget[] | undefined {
+  const { adapter } = ctx.options as BuildCommandOptions
+  const targets: BuildTarget[] | undefined = adapter
+    ? adapter.includes(',')
+      ? adapter.split(',').map(name => ({ adapter: name.trim() })).filter(target => target.adapter)
+      : undefined
+    : ctx.nexoc.config.targets?.length ? ctx.nexoc.config.targets : undefined
+
+  // Each target gets its own outDir, so the adapter section's outDir does not apply
+  return targets?.map((target) => {
+    const { outDir: _outDir, ...section } = getAdapterSection(ctx, target.adapter)
+    return { ...target, options: { ...section, ...target.options } }
+  })
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} kB`
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`
+}
+
+function printOutputs(logger: Logger, outputs: string[], indent: string): void {
+  const cwd = process.cwd()
+  const rows = outputs.map((file) => {
+    const size = existsSync(file) && statSync(file).isFile() ? formatSize(statSync(file).size) : ''
+    return [path.relative(cwd, file) || '.', size] as const
+  })
+  const width = Math.max(0, ...rows.map(([file]) => file.length))
+
+  for (const [file, size] of rows) {
+    logger.info(`${indent}${file.padEnd(width)}  ${size}`.trimEnd())
+  }
+}
+
+function printTargetResult(logger: Logger, result: BuildTargetResult): void {
+  const label = `${result.target} (${result.adapter})`
+
+  if (result.skipped) {
+    logger.warn(`${label} skipped: ${result.errors?.[0] || 'not built'}`)
+  } else if (!result.success) {
+    logger.error(`${label} failed after ${result.duration}ms`)
+  } else {
+    const cached = result.cache?.hit ? ' (cached)' : ''
+    logger.success(`${label} built ${result.outputs.length} file(s) in ${result.duration}ms${cached}`)
+    printOutputs(logger, result.outputs, '    ')
+  }
+}
+
+// Warnings are not repeated here, BuildManager.build logs them as they come in
+export function printBuildResult(logger: Logger, result: BuildResult, adapterName: string): void {
+  if (result.targets) {
+    for (const error of result.errors || []) {
+      logger.error(error)
+    }
+    for (const target of result.targets) {
+      printTargetResult(logger, target)
+    }
+
+    const built = result.targets.filter(target => target.success).length
+    const summary = `${built}/${result.targets.length} target(s) built in ${result.duration}ms`
+    if (result.success) {
+      logger.success(summary)
+    } else {
+      logger.error(summary)
+    }
+    return
+  }
+
+  if (!result.success) {
+    for (const error of result.errors || []) {
+      logger.error(error)
+    }
+    logger.error(`Build with "${adapterName}" failed after ${result.duration}ms`)
+    return
+  }
+
+  printOutputs(logger, result.outputs, '  ')
+
+  const warnings = result.warnings?.length ? `, ${result.warnings.length} warning(s)` : ''
+  const cached = result.cache?.hit ? ' (cached)' : ''
+  logger.success(`Built ${result.outputs.length} file(s) with "${adapterName}" in ${result.duration}ms${cached}${warnings}`)
+}
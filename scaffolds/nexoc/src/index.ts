@@ -1,7 +1,52 @@
-export { createNexoc, defineNexocConfig, definePlugin } from '@nexoc/core'
-export { createNexocHooks, hookUtils, createHookDecorator, createHooks } from '@nexoc/hooks'
-export { LifecycleManager, createLifecycle, createLifecycleContext, LIFECYCLE_PHASES } from '@nexoc/lifecycle'
-export { Pipeline, createPipeline, createPipelineContext, defineStage, composePipelines } from '@nexoc/pipeline'
+export {
+  createNexoc,
+  loadNexoc,
+  loadNexocConfig,
+  defineNexocConfig,
+  getConfigSection,
+  definePlugin,
+  installPlugins,
+  formatConfigSource,
+  ConfigValidationError,
+  validateConfig,
+  validateNexocConfig,
+  defineConfigSchema,
+} from '@nexoc/core'
+export type { LoadConfigOptions, ResolvedConfig, ConfigIssue } from '@nexoc/core'
+export {
+  createNexocHooks,
+  hookUtils,
+  createHookDecorator,
+  createHooks,
+  Tracer,
+  createTracer,
+  formatTraceSummary,
+  toChromeTrace,
+} from '@nexoc/hooks'
+export { createLogger, attachHookLogger, isLevelEnabled, LOG_LEVELS } from '@nexoc/logger'
+export { LifecycleManager, createLifecycle, createLifecycleContext, createPhaseRegistry, LIFECYCLE_PHASES } from '@nexoc/lifecycle'
+export type { LifecycleRunOptions } from '@nexoc/lifecycle'
+export {
+  Pipeline,
+  createPipeline,
+  createPipelineContext,
+  defineStage,
+  composePipelines,
+  createSubPipelineStage,
+  createFanOutStage,
+  PipelineTimeoutError,
+  PipelineAbortError,
+  PipelineCheckpointError,
+  CheckpointStore,
+  DEFAULT_CHECKPOINT_DIR,
+  getErrorRunId,
+  renderPlan,
+  renderPlanText,
+  renderPlanMermaid,
+  renderPlanDot,
+  getRetryDelay,
+} from '@nexoc/pipeline'
+export type { SubPipelineStageOptions, FanOutStageOptions, PipelineChain, PipelineChainOutput } from '@nexoc/pipeline'
 export {
   createAdapterRegistry,
   BuildManager,
@@ -19,16 +64,48 @@ export {
   defineCommand,
   toCittyCommand,
   runMain,
+  createTerminalPrompter,
+  createScriptedPrompter,
 } from '@nexoc/commands'
+export { builtinCommands, buildCommand, devCommand, cleanCommand, runCommandPipeline } from './commands'
 
 export type {
+  BuiltinLifecyclePhase,
+  CustomLifecyclePhases,
   LifecyclePhase,
+  LifecyclePhasePosition,
+  LifecyclePhaseRegistry,
+  LifecyclePhaseHooks,
   LifecycleContext,
+  LifecyclePhaseHandler,
+  LifecyclePhaseStatus,
+  LifecyclePhaseResult,
+  LifecycleReport,
+  LifecycleRollbackAction,
+  LifecycleRollbackResult,
+  LifecycleRollbackReport,
   PipelineStage,
   PipelineContext,
   PipelineOptions,
+  PipelineExecuteOptions,
+  StageResults,
+  PipelineCheckpoint,
+  PipelineCheckpointOptions,
+  PipelineCheckpointSerializer,
+  PipelinePlan,
+  PipelinePlanStage,
+  PipelinePlanStatus,
+  PipelinePlanOptions,
+  PipelinePlanFormat,
+  StageInputResolver,
+  StageRetryOptions,
+  StageAttempt,
   NexocHooks,
   NexocHookable,
+  TraceSpan,
+  TraceSpanKind,
+  TraceSpanStatus,
+  ChromeTraceEvent,
   Command,
   CommandMeta,
   CommandOptions,
@@ -36,11 +113,31 @@ export type {
   CommandOptionDef,
   CommandArgDef,
   CommandContext,
+  PromptType,
+  PromptChoice,
+  PromptDef,
+  PromptQuestion,
+  Prompter,
   BuildAdapter,
   BuildOptions,
   BuildResult,
   AdapterRegistry,
+  DevOptions,
+  DevChange,
+  DevSession,
+  DevServer,
   NexocConfig,
+  NexocUserConfig,
+  NexocConfigSections,
+  LogLevel,
+  LogFormat,
+  Logger,
+  Spinner,
+  ProgressBar,
+  ConfigSource,
+  ConfigSchema,
+  ConfigSchemaField,
+  ConfigValueType,
   NexocPlugin,
   NexocInstance,
 } from '@nexoc/types'
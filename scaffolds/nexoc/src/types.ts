@@ -1,11 +1,40 @@
 export type {
+  BuiltinLifecyclePhase,
+  CustomLifecyclePhases,
   LifecyclePhase,
+  LifecyclePhasePosition,
+  LifecyclePhaseRegistry,
+  LifecyclePhaseHooks,
   LifecycleContext,
+  LifecyclePhaseHandler,
+  LifecyclePhaseStatus,
+  LifecyclePhaseResult,
+  LifecycleReport,
+  LifecycleRollbackAction,
+  LifecycleRollbackResult,
+  LifecycleRollbackReport,
   PipelineStage,
   PipelineContext,
   PipelineOptions,
+  PipelineExecuteOptions,
+  StageResults,
+  PipelineCheckpoint,
+  PipelineCheckpointOptions,
+  PipelineCheckpointSerializer,
+  PipelinePlan,
+  PipelinePlanStage,
+  PipelinePlanStatus,
+  PipelinePlanOptions,
+  PipelinePlanFormat,
+  StageInputResolver,
+  StageRetryOptions,
+  StageAttempt,
   NexocHooks,
   NexocHookable,
+  TraceSpan,
+  TraceSpanKind,
+  TraceSpanStatus,
+  ChromeTraceEvent,
   Command,
   CommandMeta,
   CommandOptions,
@@ -13,11 +42,31 @@ export type {
   CommandOptionDef,
   CommandArgDef,
   CommandContext,
+  PromptType,
+  PromptChoice,
+  PromptDef,
+  PromptQuestion,
+  Prompter,
   BuildAdapter,
   BuildOptions,
   BuildResult,
   AdapterRegistry,
+  DevOptions,
+  DevChange,
+  DevSession,
+  DevServer,
   NexocConfig,
+  NexocUserConfig,
+  NexocConfigSections,
+  LogLevel,
+  LogFormat,
+  Logger,
+  Spinner,
+  ProgressBar,
+  ConfigSource,
+  ConfigSchema,
+  ConfigSchemaField,
+  ConfigValueType,
   NexocPlugin,
   NexocInstance,
 } from '@nexoc/types'
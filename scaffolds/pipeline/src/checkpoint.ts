@@ -0,0 +1,195 @@
+import { createHash, randomBytes } from 'node:crypto'
+import { existsSync } from 'node:fs'
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import type {
+  PipelineCheckpoint,
+  PipelineCheckpointOptions,
+  PipelineContext,
+  PipelineStage,
+} from '@nexoc/types'
+
+export const DEFAULT_CHECKPOINT_DIR = '.nexoc/checkpoints'
+
+// Bump when the file layout changes so old checkpoints are rejected
+const CHECKPOINT_FORMAT = 2
+
+export class PipelineCheckpointError extends Error {
+  readonly runId: string
+
+  constructor(message: string, runId: string) {
+    super(message)
+    this.name = 'PipelineCheckpointError'
+    this.runId = runId
+  }
+}
+
+/**
+ * Run id a checkpointed pipeline attached to the error it failed with, the
+ * one to pass to `resume`.
+ */
+export function getErrorRunId(error: unknown): string | undefined {
+  const runId = error && typeof error === 'object' ? (error as { runId?: unknown }).runId : undefined
+  return typeof runId === 'string' ? runId : undefined
+}
+
+export function createRunId(): string {
+  return `${Date.now().toString(36)}-${randomBytes(3).toString('hex')}`
+}
+
+/**
+ * Hashes everything that shapes what a stage does, including the source of
+ * its functions, so edited stages are detected on resume.
+ */
+export function fingerprintStage(stage: PipelineStage): string {
+  const source = (fn: unknown) => (typeof fn === 'function' ? fn.toString() : fn ?? null)
+
+  return createHash('sha256')
+    .update(JSON.stringify([
+      stage.name,
+      stage.dependencies || [],
+      Boolean(stage.skippable),
+      source(stage.input),
+      source(stage.condition),
+      source(stage.execute),
+    ]))
+    .digest('hex')
+    .slice(0, 16)
+}
+
+/**
+ * Reads and writes the checkpoint files of one pipeline. Writes are queued
+ * so stages finishing together in parallel mode cannot interleave them.
+ */
+export class CheckpointStore {
+  private options: PipelineCheckpointOptions
+  private dir: string
+  private writing: Promise<void> = Promise.resolve()
+
+  constructor(pipelineName: string, options: PipelineCheckpointOptions = {}) {
+    this.options = options
+    this.dir = path.resolve(options.dir || DEFAULT_CHECKPOINT_DIR, pipelineName.replace(/[^\w.-]/g, '_'))
+  }
+
+  get keep(): boolean {
+    return Boolean(this.options.keep)
+  }
+
+  getFile(runId: string): string {
+    return path.join(this.dir, `${runId}.json`)
+  }
+
+  async load(runId: string): Promise<PipelineCheckpoint> {
+    const file = this.getFile(runId)
+    if (!existsSync(file)) {
+      throw new PipelineCheckpointError(`No checkpoint "${runId}" found in ${this.dir}`, runId)
+    }
+
+    let checkpoint: PipelineCheckpoint
+    try {
+      checkpoint = JSON.parse(await readFile(file, 'utf-8')) as PipelineCheckpoint
+    } catch (error) {
+      throw new PipelineCheckpointError(`Checkpoint "${runId}" is unreadable: ${(error as Error).message}`, runId)
+    }
+
+    if (checkpoint.format !== CHECKPOINT_FORMAT) {
+      throw new PipelineCheckpointError(`Checkpoint "${runId}" was written by an incompatible version`, runId)
+    }
+    return checkpoint
+  }
+
+  /**
+   * Captures the state of `ctx` right away and writes it once earlier
+   * writes have finished. Resolves with the checkpoint file.
+   */
+  save(
+    ctx: PipelineContext,
+    stages: readonly PipelineStage[],
+    input: unknown,
+    status: PipelineCheckpoint['status'],
+    createdAt: number
+  ): Promise<string> {
+    const runId = ctx.runId!
+    const serialize = this.options.serializer?.serialize ?? ((value: unknown) => value)
+
+    const checkpoint: PipelineCheckpoint = {
+      format: CHECKPOINT_FORMAT,
+      runId,
+      pipeline: ctx.pipelineName,
+      status,
+      createdAt,
+      updatedAt: Date.now(),
+      stages: stages.map(stage => ({ name: stage.name, hash: fingerprintStage(stage) })),
+      input: serialize(input, 'input'),
+      completedStages: [...ctx.stageResults.keys()],
+      stageResults: Object.fromEntries(
+        [...ctx.stageResults].map(([name, value]) => [name, serialize(value, `stage:${name}`)])
+      ),
+      skippedStages: [...ctx.skippedStages],
+      shared: Object.fromEntries(
+        Object.entries(ctx.shared).map(([key, value]) => [key, serialize(value, `shared:${key}`)])
+      ),
+    }
+    const content = `${JSON.stringify(checkpoint, null, 2)}\n`
+    const file = this.getFile(runId)
+
+    const write = this.writing.then(async () => {
+      const staging = `${file}.tmp-${process.pid}`
+      await mkdir(this.dir, { recursive: true })
+      await writeFile(staging, content)
+      await rename(staging, file)
+    })
+    this.writing = write.catch(() => undefined)
+    return write.then(() => file)
+  }
+
+  async remove(runId: string): Promise<void> {
+    await this.writing
+    await rm(this.getFile(runId), { force: true })
+  }
+
+  /**
+   * Throws when a stage was added, removed, reordered or edited since the
+   * checkpoint was written, since its stored results may no longer fit.
+   */
+  validate(checkpoint: PipelineCheckpoint, stages: readonly PipelineStage[]): void {
+    const fail = (reason: string) => {
+      throw new PipelineCheckpointError(
+        `Cannot resume pipeline "${checkpoint.pipeline}" from checkpoint "${checkpoint.runId}": ${reason}`,
+        checkpoint.runId
+      )
+    }
+
+    const current = stages.map(stage => ({ name: stage.name, hash: fingerprintStage(stage) }))
+    const names = current.map(stage => stage.name)
+    const stored = checkpoint.stages.map(stage => stage.name)
+
+    const added = names.find(name => !stored.includes(name))
+    if (added) fail(`stage "${added}" was added`)
+    const removed = stored.find(name => !names.includes(name))
+    if (removed) fail(`stage "${removed}" was removed`)
+    if (names.join('\0') !== stored.join('\0')) fail('stages were reordered')
+
+    const changed = current.find((stage, index) => stage.hash !== checkpoint.stages[index]!.hash)
+    if (changed) fail(`stage "${changed.name}" changed`)
+  }
+
+  /** Loads the stored state into `ctx` and returns the original pipeline input */
+  restore(checkpoint: PipelineCheckpoint, ctx: PipelineContext): unknown {
+    const deserialize = this.options.serializer?.deserialize ?? ((value: unknown) => value)
+
+    // JSON drops undefined results, those stages are only in completedStages
+    for (const name of checkpoint.completedStages) {
+      ctx.stageResults.set(name, deserialize(checkpoint.stageResults[name], `stage:${name}`))
+    }
+    for (const name of checkpoint.skippedStages) {
+      ctx.skippedStages.add(name)
+    }
+    for (const [key, value] of Object.entries(checkpoint.shared)) {
+      ctx.shared[key] = deserialize(value, `shared:${key}`)
+    }
+    ctx.runId = checkpoint.runId
+
+    return deserialize(checkpoint.input, 'input')
+  }
+}
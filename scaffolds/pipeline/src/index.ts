@@ -2,10 +2,79 @@ import type {
   PipelineStage,
   PipelineContext,
   PipelineOptions,
+  PipelineExecuteOptions,
+  PipelineCheckpoint,
+  PipelineCheckpointOptions,
+  PipelinePlan,
+  PipelinePlanOptions,
+  PipelinePlanStage,
+  StageRetryOptions,
   NexocHookable
 } from '@nexoc/types'
+import { CheckpointStore, createRunId } from './checkpoint'
+
+const DEFAULT_RETRY: Required<StageRetryOptions> = {
+  attempts: 3,
+  delay: 100,
+  factor: 2,
+  maxDelay: 30_000,
+  jitter: true,
+  retryable: () => true,
+}
+
+export class PipelineTimeoutError extends Error {
+  readonly timeout: number
+
+  constructor(message: string, timeout: number) {
+    super(message)
+    this.name = 'PipelineTimeoutError'
+    this.timeout = timeout
+  }
+}
+
+export class PipelineAbortError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PipelineAbortError'
+  }
+}
+
+/** Exponential backoff for the retry after `attempt`, with optional jitter */
+export function getRetryDelay(retry: Required<StageRetryOptions>, attempt: number): number {
+  const delay = Math.min(retry.maxDelay, retry.delay * retry.factor ** (attempt - 1))
+  return retry.jitter ? Math.round(delay * (0.5 + Math.random() / 2)) : delay
+}
 
-export function createPipelineContext(name: string): PipelineContext {
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  let timer: NodeJS.Timeout | undefined
+  return raceAbort(signal, () => new Promise<void>((resolve) => {
+    timer = setTimeout(resolve, ms)
+  })).finally(() => clearTimeout(timer))
+}
+
+/**
+ * Settles with `run()` unless `signal` aborts first, so work that ignores the
+ * signal cannot hold up the pipeline.
+ */
+function raceAbort<T>(signal: AbortSignal, run: () => Promise<T>): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason)
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason)
+    signal.addEventListener('abort', onAbort, { once: true })
+
+    run().then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+interface PipelineRun {
+  controller: AbortController
+  input: unknown
+  createdAt: number
+  checkpoint?: CheckpointStore
+}
+
+export function createPipelineContext(name: string, signal: AbortSignal = new AbortController().signal): PipelineContext {
   return {
     pipelineName: name,
     currentStageIndex: 0,
@@ -13,13 +82,24 @@ export function createPipelineContext(name: string): PipelineContext {
     shared: {},
     aborted: false,
     skippedStages: new Set(),
+    signal,
   }
 }
 
-export class Pipeline<TInput = unknown, TOutput = unknown> {
+/**
+ * `TOutput` is what `execute` resolves with and `TResults` maps stage names
+ * to their outputs. Both are tracked by `pipe`; `addStage` and the editing
+ * methods leave them alone, as plugins inserting stages cannot know them.
+ */
+export class Pipeline<
+  TInput = unknown,
+  TOutput = TInput,
+  TResults extends Record<string, unknown> = Record<string, unknown>,
+> {
   private stages: PipelineStage[] = []
   private options: PipelineOptions
   private hooks: NexocHookable
+  private runs = new WeakMap<PipelineContext, PipelineRun>()
 
   constructor(hooks: NexocHookable, options: PipelineOptions) {
     this.hooks = hooks
@@ -30,6 +110,19 @@ export class Pipeline<TInput = unknown, TOutput = unknown> {
     return this.options.name
   }
 
+  /**
+   * Appends a stage whose input is the current pipeline output and narrows
+   * the pipeline to the stage's output, so `Pipeline<A, B>` piped into a
+   * `PipelineStage<B, C>` becomes `Pipeline<A, C>`. A stage that does not
+   * accept `TOutput` is a compile-time error.
+   */
+  pipe<TNext, TName extends string>(
+    stage: PipelineStage<TOutput, TNext, TName>
+  ): Pipeline<TInput, TNext, TResults & Record<TName, TNext>> {
+    this.stages.push(stage as PipelineStage)
+    return this as unknown as Pipeline<TInput, TNext, TResults & Record<TName, TNext>>
+  }
+
   addStage<TStageInput = unknown, TStageOutput = unknown>(
     stage: PipelineStage<TStageInput, TStageOutput>
   ): this {
@@ -92,6 +185,85 @@ export class Pipeline<TInput = unknown, TOutput = unknown> {
     return this.stages
   }
 
+  /**
+   * Checks that every dependency names a stage of this pipeline and that
+   * dependencies do not form a cycle. In sequential mode dependencies must
+   * also be declared before the stages that use them.
+   */
+  validate(): void {
+    const byName = new Map<string, PipelineStage>()
+    for (const stage of this.stages) {
+      if (byName.has(stage.name)) {
+        throw new Error(`Pipeline "${this.name}" has more than one stage named "${stage.name}"`)
+      }
+      byName.set(stage.name, stage)
+    }
+
+    for (const stage of this.stages) {
+      for (const dependency of stage.dependencies || []) {
+        if (!byName.has(dependency)) {
+          throw new Error(`Stage "${stage.name}" depends on unknown stage "${dependency}"`)
+        }
+      }
+    }
+
+    const visited = new Set<string>()
+    const visiting: string[] = []
+
+    const visit = (stage: PipelineStage): void => {
+      if (visited.has(stage.name)) return
+
+      const cycleStart = visiting.indexOf(stage.name)
+      if (cycleStart !== -1) {
+        const cycle = [...visiting.slice(cycleStart), stage.name]
+        throw new Error(`Circular stage dependency in pipeline "${this.name}": ${cycle.join(' -> ')}`)
+      }
+
+      visiting.push(stage.name)
+      for (const dependency of stage.dependencies || []) {
+        visit(byName.get(dependency)!)
+      }
+      visiting.pop()
+      visited.add(stage.name)
+    }
+
+    this.stages.forEach(visit)
+
+    if (!this.options.parallel) {
+      this.stages.forEach((stage, index) => {
+        const late = stage.dependencies?.find(dependency =>
+          this.stages.findIndex(s => s.name === dependency) > index
+        )
+        if (late) {
+          throw new Error(`Stage "${stage.name}" depends on "${late}", which runs after it`)
+        }
+      })
+    }
+  }
+
+  private isComplete(stage: PipelineStage, ctx: PipelineContext): boolean {
+    return ctx.stageResults.has(stage.name) || ctx.skippedStages.has(stage.name)
+  }
+
+  /** Records a stage result here and, namespaced, in every ancestor run */
+  private setStageResult(ctx: PipelineContext, name: string, result: unknown): void {
+    ctx.stageResults.set(name, result)
+
+    let key = name
+    for (let current = ctx; current.parent; current = current.parent) {
+      key = `${current.namespace}/${key}`
+      current.parent.stageResults.set(key, result)
+    }
+  }
+
+  private async saveCheckpoint(ctx: PipelineContext, status: PipelineCheckpoint['status'] = 'running'): Promise<void> {
+    const run = this.runs.get(ctx)
+    if (!run?.checkpoint) return
+
+    const file = await run.checkpoint.save(ctx, this.stages, run.input, status, run.createdAt)
+    await this.hooks.callHook('pipeline:checkpoint', ctx, file)
+  }
+
   private checkDependencies(stage: PipelineStage, ctx: PipelineContext): boolean {
     if (!stage.dependencies?.length) return true
     return stage.dependencies.every(dep =>
@@ -99,17 +271,68 @@ export class Pipeline<TInput = unknown, TOutput = unknown> {
     )
   }
 
+  private async resolveInput(stage: PipelineStage, fallback: unknown, ctx: PipelineContext): Promise<unknown> {
+    if (!stage.input) return fallback
+
+    const dependencyResults: Record<string, unknown> = {}
+    for (const dependency of stage.dependencies || []) {
+      if (ctx.stageResults.has(dependency)) {
+        dependencyResults[dependency] = ctx.stageResults.get(dependency)
+      }
+    }
+
+    return stage.input === 'dependencies'
+      ? dependencyResults
+      : stage.input(dependencyResults, ctx)
+  }
+
+  private resolveRetry(stage: PipelineStage): Required<StageRetryOptions> {
+    const fromStage = typeof stage.retry === 'number' ? { attempts: stage.retry } : stage.retry
+    const fromPipeline = this.options.onError === 'retry'
+      ? { attempts: (this.options.maxRetries ?? 3) + 1, ...this.options.retry }
+      : undefined
+
+    return {
+      ...DEFAULT_RETRY,
+      ...(fromStage || fromPipeline || { attempts: 1 }),
+    }
+  }
+
+  private async runAttempt(
+    stage: PipelineStage,
+    input: unknown,
+    ctx: PipelineContext,
+    pipelineSignal: AbortSignal
+  ): Promise<unknown> {
+    const controller = new AbortController()
+    const signal = AbortSignal.any([pipelineSignal, controller.signal])
+    const timer = stage.timeout
+      ? setTimeout(() => controller.abort(
+          new PipelineTimeoutError(`Stage "${stage.name}" timed out after ${stage.timeout}ms`, stage.timeout!)
+        ), stage.timeout)
+      : undefined
+
+    try {
+      return await raceAbort(signal, async () =>
+        stage.execute(await this.resolveInput(stage, input, ctx), ctx, signal)
+      )
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
   private async executeStage(
     stage: PipelineStage,
     input: unknown,
     ctx: PipelineContext,
-    retryCount = 0
+    signal: AbortSignal
   ): Promise<unknown> {
     if (stage.condition) {
       const shouldRun = await stage.condition(ctx)
       if (!shouldRun) {
         await this.hooks.callHook('pipeline:stage:skip', stage, ctx)
         ctx.skippedStages.add(stage.name)
+        await this.saveCheckpoint(ctx)
         return input
       }
     }
@@ -120,121 +343,493 @@ export class Pipeline<TInput = unknown, TOutput = unknown> {
       )
     }
 
-    await this.hooks.callHook('pipeline:stage:before', stage, ctx)
+    const retry = this.resolveRetry(stage)
 
-    try {
-      const result = await stage.execute(input, ctx)
-      ctx.stageResults.set(stage.name, result)
-      await this.hooks.callHook('pipeline:stage:after', stage, result, ctx)
-      return result
-    } catch (error) {
-      await this.hooks.callHook('pipeline:stage:error', stage, error as Error, ctx)
+    for (let attempt = 1; ; attempt++) {
+      await this.hooks.callHook('pipeline:stage:before', stage, ctx)
 
-      if (this.options.onError === 'retry' && retryCount < (this.options.maxRetries || 3)) {
-        return this.executeStage(stage, input, ctx, retryCount + 1)
-      }
-
-      if (this.options.onError === 'continue' && stage.skippable) {
-        ctx.skippedStages.add(stage.name)
-        return input
+      try {
+        const result = await this.runAttempt(stage, input, ctx, signal)
+        this.setStageResult(ctx, stage.name, result)
+        await this.hooks.callHook('pipeline:stage:after', stage, result, ctx)
+        await this.saveCheckpoint(ctx)
+        return result
+      } catch (error) {
+        // A stage that aborted on its own, such as an aborted sub-pipeline, aborts this run too
+        if (error instanceof PipelineAbortError && !signal.aborted) {
+          ctx.aborted = true
+          this.runs.get(ctx)?.controller.abort(error)
+        }
+
+        // A pipeline-wide abort is final, only the stage's own failures are retried
+        const willRetry = attempt < retry.attempts
+          && !signal.aborted
+          && retry.retryable(error as Error, attempt)
+
+        await this.hooks.callHook('pipeline:stage:error', stage, error as Error, ctx, {
+          attempt,
+          attempts: retry.attempts,
+          willRetry,
+        })
+
+        if (willRetry) {
+          await sleep(getRetryDelay(retry, attempt), signal)
+          continue
+        }
+
+        if (this.options.onError === 'continue' && stage.skippable) {
+          ctx.skippedStages.add(stage.name)
+          await this.saveCheckpoint(ctx)
+          return input
+        }
+
+        throw error
       }
-
-      throw error
     }
   }
 
-  private async executeParallel(input: TInput, ctx: PipelineContext): Promise<TOutput> {
-    const pending = new Set(this.stages.map(s => s.name))
-    let currentInput: unknown = input
+  /**
+   * Starts every stage as soon as its dependencies have completed, with at
+   * most `concurrency` stages running at once. The pipeline result is the
+   * output of the last declared stage that ran. Stages completed before a
+   * resume are not run again.
+   */
+  private async executeParallel(input: TInput, ctx: PipelineContext, signal: AbortSignal): Promise<TOutput> {
+    const concurrency = Math.max(1, this.options.concurrency ?? Infinity)
+    const pending = this.stages.filter(stage => !this.isComplete(stage, ctx))
+    const running = new Set<Promise<void>>()
+    const outputs = new Map<string, unknown>(
+      [...ctx.stageResults].filter(([name]) => !ctx.skippedStages.has(name))
+    )
+    let failure: { error: unknown } | undefined
+
+    const start = (stage: PipelineStage) => {
+      ctx.currentStageIndex = this.stages.indexOf(stage)
+      const task = (async () => {
+        try {
+          const output = await this.executeStage(stage, input, ctx, signal)
+          if (!ctx.skippedStages.has(stage.name)) {
+            outputs.set(stage.name, output)
+          }
+        } catch (error) {
+          failure ??= { error }
+        }
+      })()
+      running.add(task)
+      void task.finally(() => running.delete(task))
+    }
 
-    while (pending.size > 0) {
-      const executable = this.stages.filter(stage =>
-        pending.has(stage.name) &&
-        this.checkDependencies(stage, ctx)
-      )
+    while (pending.length > 0 || running.size > 0) {
+      if (signal.aborted) failure ??= { error: signal.reason }
 
-      if (executable.length === 0 && pending.size > 0) {
-        throw new Error('Circular dependency detected in pipeline stages')
+      while (!failure && !ctx.aborted && running.size < concurrency) {
+        const index = pending.findIndex(stage => this.checkDependencies(stage, ctx))
+        if (index === -1) break
+        start(pending.splice(index, 1)[0]!)
       }
 
-      const results = await Promise.all(
-        executable.map(stage =>
-          this.executeStage(stage, currentInput, ctx)
-        )
-      )
+      if (running.size === 0) break
+      await Promise.race(running)
+    }
 
-      executable.forEach((stage, index) => {
-        pending.delete(stage.name)
-        currentInput = results[index]
-      })
+    if (failure) throw failure.error
 
-      if (ctx.aborted) break
+    let result: unknown = input
+    for (const stage of this.stages) {
+      if (outputs.has(stage.name)) result = outputs.get(stage.name)
     }
-
-    return currentInput as TOutput
+    return result as TOutput
   }
 
-  private async executeSequential(input: TInput, ctx: PipelineContext): Promise<TOutput> {
+  private async executeSequential(input: TInput, ctx: PipelineContext, signal: AbortSignal): Promise<TOutput> {
     let currentInput: unknown = input
 
     for (let i = 0; i < this.stages.length; i++) {
+      if (signal.aborted) throw signal.reason
       if (ctx.aborted) break
       ctx.currentStageIndex = i
       const stage = this.stages[i]!
-      currentInput = await this.executeStage(stage, currentInput, ctx)
+
+      // Completed before a resume: replay the output instead of running again
+      if (this.isComplete(stage, ctx)) {
+        if (ctx.stageResults.has(stage.name)) currentInput = ctx.stageResults.get(stage.name)
+        continue
+      }
+
+      currentInput = await this.executeStage(stage, currentInput, ctx, signal)
     }
 
     return currentInput as TOutput
   }
 
-  async execute(input: TInput): Promise<{ result: TOutput; context: PipelineContext }> {
+  private getCheckpointOptions(): PipelineCheckpointOptions {
+    return typeof this.options.checkpoint === 'object' ? this.options.checkpoint : {}
+  }
+
+  /**
+   * Works out what `execute` would do without running any stage: conditions
+   * are evaluated against `options.context` in the order stages would start,
+   * and stages are grouped by how they can run side by side.
+   */
+  async plan(options: PipelinePlanOptions = {}): Promise<PipelinePlan> {
+    this.validate()
+
+    const base = { ...createPipelineContext(this.options.name), ...options.context }
+    // Conditions see their own copy, so planning cannot change the caller's state
+    const ctx: PipelineContext = {
+      ...base,
+      stageResults: new Map(base.stageResults),
+      skippedStages: new Set(base.skippedStages),
+      shared: { ...base.shared },
+    }
+
+    if (options.resume) {
+      const checkpoint = new CheckpointStore(this.name, this.getCheckpointOptions())
+      const stored = await checkpoint.load(options.resume)
+      checkpoint.validate(stored, this.stages)
+      checkpoint.restore(stored, ctx)
+    }
+
+    // Sequential stages each form their own group; parallel ones follow their deepest dependency
+    const groups = new Map<string, number>()
+    const groupOf = (stage: PipelineStage): number => {
+      if (!groups.has(stage.name)) {
+        groups.set(stage.name, this.options.parallel
+          ? Math.max(-1, ...(stage.dependencies || []).map(dependency =>
+              groupOf(this.stages.find(s => s.name === dependency)!))) + 1
+          : this.stages.indexOf(stage))
+      }
+      return groups.get(stage.name)!
+    }
+    this.stages.forEach(groupOf)
+
+    const ordered = [...this.stages].sort((a, b) => groups.get(a.name)! - groups.get(b.name)!)
+    const stages: PipelinePlanStage[] = []
+
+    for (const stage of ordered) {
+      const planned: PipelinePlanStage = {
+        name: stage.name,
+        description: stage.description,
+        dependencies: stage.dependencies || [],
+        group: groups.get(stage.name)!,
+        status: 'run',
+      }
+
+      if (this.isComplete(stage, ctx)) {
+        planned.status = 'done'
+      } else if (stage.condition) {
+        try {
+          if (!await stage.condition(ctx)) {
+            planned.status = 'skip'
+            planned.reason = 'condition is false'
+            ctx.skippedStages.add(stage.name)
+          }
+        } catch (error) {
+          planned.status = 'unknown'
+          planned.reason = (error as Error).message
+        }
+      }
+
+      stages.push(planned)
+    }
+
+    const groupNames: string[][] = []
+    for (const stage of stages) {
+      (groupNames[stage.group] ??= []).push(stage.name)
+    }
+
+    return {
+      pipeline: this.name,
+      parallel: Boolean(this.options.parallel),
+      concurrency: this.options.parallel ? this.options.concurrency : undefined,
+      runId: ctx.runId,
+      stages,
+      groups: groupNames.filter(Boolean),
+    }
+  }
+
+  async execute(
+    input: TInput,
+    options: PipelineExecuteOptions = {}
+  ): Promise<{ result: TOutput; context: PipelineContext<TResults> }> {
+    this.validate()
+
+    const checkpoint = this.options.checkpoint
+      ? new CheckpointStore(this.name, this.getCheckpointOptions())
+      : undefined
+    const ctx = this.createRunContext(options)
+    if (checkpoint) ctx.runId = options.runId ?? createRunId()
+
+    return this.run(ctx as PipelineContext<TResults>, input, options, checkpoint, Date.now())
+  }
+
+  /**
+   * Continues a checkpointed run from its first incomplete stage, with the
+   * input, stage results and shared state stored in the checkpoint. Throws a
+   * PipelineCheckpointError when the stages changed since it was written.
+   */
+  async resume(
+    runId: string,
+    options: Omit<PipelineExecuteOptions, 'runId'> = {}
+  ): Promise<{ result: TOutput; context: PipelineContext<TResults> }> {
+    this.validate()
+
+    const checkpoint = new CheckpointStore(this.name, this.getCheckpointOptions())
+    const stored = await checkpoint.load(runId)
+    checkpoint.validate(stored, this.stages)
+
+    const ctx = this.createRunContext(options)
+    const input = checkpoint.restore(stored, ctx) as TInput
+
+    return this.run(ctx as PipelineContext<TResults>, input, options, checkpoint, stored.createdAt)
+  }
+
+  private createRunContext(options: PipelineExecuteOptions): PipelineContext {
     const ctx = createPipelineContext(this.options.name)
+    if (options.parent) {
+      ctx.parent = options.parent
+      ctx.namespace = options.namespace ?? this.name
+      // Reads fall through to the parent, writes stay with the sub-pipeline
+      ctx.shared = Object.create(options.parent.shared) as Record<string, unknown>
+    }
+    return ctx
+  }
+
+  private async run(
+    ctx: PipelineContext<TResults>,
+    input: TInput,
+    options: PipelineExecuteOptions,
+    checkpoint: CheckpointStore | undefined,
+    createdAt: number
+  ): Promise<{ result: TOutput; context: PipelineContext<TResults> }> {
+    const controller = new AbortController()
+    ctx.signal = controller.signal
+    this.runs.set(ctx, { controller, input, createdAt, checkpoint })
+
+    const { timeout } = this.options
+    const timer = timeout
+      ? setTimeout(() => controller.abort(
+          new PipelineTimeoutError(`Pipeline "${this.name}" timed out after ${timeout}ms`, timeout)
+        ), timeout)
+      : undefined
+
+    const onExternalAbort = () => controller.abort(options.signal!.reason)
+    if (options.signal?.aborted) {
+      onExternalAbort()
+    } else {
+      options.signal?.addEventListener('abort', onExternalAbort, { once: true })
+    }
+
     await this.hooks.callHook('pipeline:start', ctx)
 
     try {
-      const result = this.options.parallel
-        ? await this.executeParallel(input, ctx)
-        : await this.executeSequential(input, ctx)
+      await this.saveCheckpoint(ctx)
 
+      const result = this.options.parallel
+        ? await this.executeParallel(input, ctx, controller.signal)
+        : await this.executeSequential(input, ctx, controller.signal)
+
+      if (ctx.aborted) {
+        await this.saveCheckpoint(ctx, 'failed')
+        await this.hooks.callHook('pipeline:abort', ctx, controller.signal.reason)
+      } else if (checkpoint?.keep) {
+        await this.saveCheckpoint(ctx, 'completed')
+      } else if (checkpoint) {
+        await checkpoint.remove(ctx.runId!)
+      }
       await this.hooks.callHook('pipeline:end', ctx)
       return { result, context: ctx }
     } catch (error) {
       ctx.aborted = true
+      // The checkpoint keeps the last completed stage, a failed write must not hide the error
+      await this.saveCheckpoint(ctx, 'failed').catch(() => undefined)
+      if (controller.signal.aborted) {
+        await this.hooks.callHook('pipeline:abort', ctx, controller.signal.reason)
+      }
+      await this.hooks.callHook('pipeline:error', ctx, error as Error)
+      // An enclosing checkpointed pipeline overwrites this with its own run id
+      if (checkpoint && error && typeof error === 'object' && Object.isExtensible(error)) {
+        (error as { runId?: string }).runId = ctx.runId
+      }
       throw error
+    } finally {
+      clearTimeout(timer)
+      options.signal?.removeEventListener('abort', onExternalAbort)
     }
   }
 
-  abort(ctx: PipelineContext): void {
+  /**
+   * Stops the run that owns `ctx`: no further stages start and the signal
+   * passed to running stages aborts, rejecting `execute` with a
+   * PipelineAbortError.
+   */
+  abort(ctx: PipelineContext, reason?: string): void {
     ctx.aborted = true
+    this.runs.get(ctx)?.controller.abort(
+      new PipelineAbortError(`Pipeline "${ctx.pipelineName}" aborted${reason ? `: ${reason}` : ''}`)
+    )
   }
 }
 
-export function createPipeline<TInput = unknown, TOutput = unknown>(
+export function createPipeline<TInput = unknown, TOutput = TInput>(
   hooks: NexocHookable,
   options: PipelineOptions
 ): Pipeline<TInput, TOutput> {
   return new Pipeline<TInput, TOutput>(hooks, options)
 }
 
-export function defineStage<TInput = unknown, TOutput = unknown>(
-  stage: PipelineStage<TInput, TOutput>
-): PipelineStage<TInput, TOutput> {
+export function defineStage<TInput = unknown, TOutput = unknown, TName extends string = string>(
+  stage: PipelineStage<TInput, TOutput, TName>
+): PipelineStage<TInput, TOutput, TName> {
   return stage
 }
 
-export function composePipelines<T>(
+export type SubPipelineStageOptions<TInput, TOutput, TName extends string> =
+  Partial<Omit<PipelineStage<TInput, TOutput, TName>, 'execute'>>
+
+/**
+ * Wraps a pipeline as a stage of another one. The sub-pipeline runs with the
+ * stage's signal and a context linked to the parent, its stage results show
+ * up in the parent as `<stage name>/<sub-stage name>`, and aborting it
+ * aborts the parent.
+ */
+export function createSubPipelineStage<
+  TInput,
+  TOutput,
+  TName extends string = string,
+  TResults extends Record<string, unknown> = Record<string, unknown>,
+>(
+  pipeline: Pipeline<TInput, TOutput, TResults>,
+  options: SubPipelineStageOptions<TInput, TOutput, TName> = {}
+): PipelineStage<TInput, TOutput, TName> {
+  const name = options.name ?? pipeline.name as TName
+
+  return {
+    description: `Execute pipeline: ${pipeline.name}`,
+    ...options,
+    name,
+    execute: async (input, ctx, signal) => {
+      const { result } = await pipeline.execute(input, { signal, parent: ctx, namespace: name })
+      return result
+    },
+  }
+}
+
+export interface FanOutStageOptions<TInput, TOutput, TName extends string>
+  extends SubPipelineStageOptions<TInput[], TOutput[], TName> {
+  /** Maximum number of runs at once, all inputs run together by default */
+  concurrency?: number
+}
+
+/**
+ * Runs `pipeline` once per input and resolves with the outputs in input
+ * order. Run `i` records its stage results in the parent as
+ * `<stage name>/<i>/<sub-stage name>`. The first failing run aborts the
+ * others.
+ */
+export function createFanOutStage<
+  TInput,
+  TOutput,
+  TName extends string = string,
+  TResults extends Record<string, unknown> = Record<string, unknown>,
+>(
+  pipeline: Pipeline<TInput, TOutput, TResults>,
+  options: FanOutStageOptions<TInput, TOutput, TName> = {}
+): PipelineStage<TInput[], TOutput[], TName> {
+  const { concurrency, ...stageOptions } = options
+  const name = options.name ?? pipeline.name as TName
+
+  return {
+    description: `Execute pipeline ${pipeline.name} for each input`,
+    ...stageOptions,
+    name,
+    execute: async (inputs, ctx, signal) => {
+      const controller = new AbortController()
+      const runSignal = AbortSignal.any([signal, controller.signal])
+      const results: TOutput[] = new Array<TOutput>(inputs.length)
+      let next = 0
+
+      const worker = async () => {
+        while (next < inputs.length && !runSignal.aborted) {
+          const index = next++
+          try {
+            const { result } = await pipeline.execute(inputs[index]!, {
+              signal: runSignal,
+              parent: ctx,
+              namespace: `${name}/${index}`,
+            })
+            results[index] = result
+          } catch (error) {
+            controller.abort(error)
+          }
+        }
+      }
+
+      const workers = Math.max(1, Math.min(concurrency ?? inputs.length, inputs.length))
+      await Promise.all(Array.from({ length: workers }, worker))
+
+      if (controller.signal.aborted) throw controller.signal.reason
+      if (signal.aborted) throw signal.reason
+      return results
+    },
+  }
+}
+
+// Pipelines take their input contravariantly, only `any` accepts all of them
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyPipeline = Pipeline<any, any, any>
+
+/**
+ * The pipelines `composePipelines` accepts: each one takes the output of
+ * the one before, the first one takes `TInput`.
+ */
+export type PipelineChain<TInput, TPipelines extends readonly unknown[]> =
+  TPipelines extends readonly [Pipeline<infer _I, infer TOutput, infer TResults>, ...infer TRest]
+    ? [Pipeline<TInput, TOutput, TResults>, ...PipelineChain<TOutput, TRest>]
+    : []
+
+/** Output of the last pipeline in a chain */
+export type PipelineChainOutput<TInput, TPipelines extends readonly unknown[]> =
+  TPipelines extends readonly [Pipeline<infer _I, infer TOutput, infer _R>, ...infer TRest]
+    ? PipelineChainOutput<TOutput, TRest>
+    : TInput
+
+/**
+ * Chains pipelines so each receives the previous one's output, checked at
+ * compile time. For pipelines that should run side by side, add
+ * `createSubPipelineStage` stages to a parallel pipeline instead.
+ */
+export function composePipelines<TInput, TPipelines extends readonly unknown[]>(
   hooks: NexocHookable,
   name: string,
-  pipelines: Pipeline[]
-): Pipeline<T, T> {
-  const composed = createPipeline<T, T>(hooks, { name })
+  pipelines: [...TPipelines] & PipelineChain<TInput, TPipelines>
+): Pipeline<TInput, PipelineChainOutput<TInput, TPipelines>>
+/**
+ * Chains an array of pipelines whose length is only known at runtime. Their
+ * inputs and outputs cannot be checked, so the output is `unknown`.
+ */
+export function composePipelines<
+  TInput = unknown,
+  TPipelines extends readonly AnyPipeline[] = readonly AnyPipeline[],
+>(
+  hooks: NexocHookable,
+  name: string,
+  // Tuples are inferred as such and rejected here, so they stay checked
+  pipelines: readonly [...TPipelines] & (number extends TPipelines['length'] ? unknown : never)
+): Pipeline<TInput, unknown>
+export function composePipelines(
+  hooks: NexocHookable,
+  name: string,
+  pipelines: readonly AnyPipeline[]
+): Pipeline<unknown, unknown> {
+  const composed = createPipeline(hooks, { name })
 
   pipelines.forEach((pipeline, index) => {
+    const stage = createSubPipelineStage(pipeline, { name: `pipeline:${pipeline.name}` })
     composed.addStage({
-      name: `pipeline:${pipeline.name}`,
-      description: `Execute pipeline: ${pipeline.name}`,
-      execute: async (input, ctx) => {
-        const { result } = await pipeline.execute(input)
+      ...stage,
+      execute: async (input, ctx, signal) => {
+        const result = await stage.execute(input, ctx, signal)
         ctx.shared[`pipeline:${index}:result`] = result
         return result
       },
@@ -244,5 +839,31 @@ export function composePipelines<T>(
   return composed
 }
 
-export type { PipelineStage, PipelineContext, PipelineOptions } from '@nexoc/types'
+export {
+  CheckpointStore,
+  PipelineCheckpointError,
+  DEFAULT_CHECKPOINT_DIR,
+  fingerprintStage,
+  getErrorRunId,
+} from './checkpoint'
+export { renderPlan, renderPlanText, renderPlanMermaid, renderPlanDot } from './plan'
+
+export type {
+  PipelineStage,
+  PipelineContext,
+  PipelineOptions,
+  PipelineExecuteOptions,
+  StageResults,
+  PipelineCheckpoint,
+  PipelineCheckpointOptions,
+  PipelineCheckpointSerializer,
+  PipelinePlan,
+  PipelinePlanStage,
+  PipelinePlanStatus,
+  PipelinePlanOptions,
+  PipelinePlanFormat,
+  StageInputResolver,
+  StageRetryOptions,
+  StageAttempt,
+} from '@nexoc/types'
 
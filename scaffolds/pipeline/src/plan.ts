@@ -0,0 +1,121 @@
+import type { PipelinePlan, PipelinePlanFormat, PipelinePlanStage } from '@nexoc/types'
+
+function describeStatus(stage: PipelinePlanStage): string {
+  switch (stage.status) {
+    case 'skip':
+      return ` (skipped: ${stage.reason})`
+    case 'done':
+      return ' (done)'
+    case 'unknown':
+      return ` (unknown: ${stage.reason})`
+    default:
+      return ''
+  }
+}
+
+function describeMode(plan: PipelinePlan): string {
+  if (!plan.parallel) return 'sequential'
+  return plan.concurrency ? `parallel, concurrency ${plan.concurrency}` : 'parallel'
+}
+
+/**
+ * Renders the plan as a tree. Sequential pipelines list their stages in
+ * order; parallel pipelines list them by group.
+ */
+export function renderPlanText(plan: PipelinePlan): string {
+  const resume = plan.runId ? `, resuming ${plan.runId}` : ''
+  const lines = [`Pipeline "${plan.pipeline}" (${describeMode(plan)}${resume})`]
+  const byName = new Map(plan.stages.map(stage => [stage.name, stage]))
+
+  const describe = (stage: PipelinePlanStage) => {
+    const dependencies = stage.dependencies.length ? ` <- ${stage.dependencies.join(', ')}` : ''
+    return `${stage.name}${dependencies}${describeStatus(stage)}`
+  }
+
+  if (!plan.parallel) {
+    plan.stages.forEach((stage, index) => {
+      const branch = index === plan.stages.length - 1 ? '└─' : '├─'
+      lines.push(`${branch} ${index + 1}. ${describe(stage)}`)
+    })
+    return lines.join('\n')
+  }
+
+  plan.groups.forEach((group, groupIndex) => {
+    const lastGroup = groupIndex === plan.groups.length - 1
+    lines.push(`${lastGroup ? '└─' : '├─'} group ${groupIndex + 1}`)
+
+    group.forEach((name, index) => {
+      const branch = index === group.length - 1 ? '└─' : '├─'
+      lines.push(`${lastGroup ? '   ' : '│  '}${branch} ${describe(byName.get(name)!)}`)
+    })
+  })
+  return lines.join('\n')
+}
+
+/**
+ * Edges between stages: declared dependencies in parallel mode, the order
+ * data flows in sequential mode.
+ */
+function getEdges(plan: PipelinePlan): Array<[string, string]> {
+  if (!plan.parallel) {
+    return plan.stages.slice(1).map((stage, index) => [plan.stages[index]!.name, stage.name])
+  }
+  return plan.stages.flatMap(stage =>
+    stage.dependencies.map(dependency => [dependency, stage.name] as [string, string])
+  )
+}
+
+export function renderPlanMermaid(plan: PipelinePlan): string {
+  const ids = new Map(plan.stages.map((stage, index) => [stage.name, `s${index}`]))
+  const escape = (text: string) => text.replace(/"/g, '#quot;')
+  const lines = ['flowchart LR']
+
+  for (const stage of plan.stages) {
+    const className = stage.status === 'run' ? '' : `:::${stage.status}`
+    lines.push(`  ${ids.get(stage.name)}["${escape(`${stage.name}${describeStatus(stage)}`)}"]${className}`)
+  }
+  for (const [from, to] of getEdges(plan)) {
+    lines.push(`  ${ids.get(from)} --> ${ids.get(to)}`)
+  }
+
+  lines.push(
+    '  classDef skip stroke-dasharray: 5 5,color:#888',
+    '  classDef done fill:#ddd,color:#555',
+    '  classDef unknown stroke:#d80',
+  )
+  return lines.join('\n')
+}
+
+export function renderPlanDot(plan: PipelinePlan): string {
+  const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+  const styles: Record<PipelinePlanStage['status'], string> = {
+    run: '',
+    skip: ', style=dashed, fontcolor=gray',
+    done: ', style=filled, fillcolor=lightgray',
+    unknown: ', color=orange',
+  }
+  const lines = [`digraph ${quote(plan.pipeline)} {`, '  rankdir=LR;', '  node [shape=box];']
+
+  for (const stage of plan.stages) {
+    lines.push(`  ${quote(stage.name)} [label=${quote(`${stage.name}${describeStatus(stage)}`)}${styles[stage.status]}];`)
+  }
+  for (const [from, to] of getEdges(plan)) {
+    lines.push(`  ${quote(from)} -> ${quote(to)};`)
+  }
+
+  lines.push('}')
+  return lines.join('\n')
+}
+
+export function renderPlan(plan: PipelinePlan, format: PipelinePlanFormat = 'text'): string {
+  switch (format) {
+    case 'mermaid':
+      return renderPlanMermaid(plan)
+    case 'dot':
+      return renderPlanDot(plan)
+    case 'text':
+      return renderPlanText(plan)
+    default:
+      throw new Error(`Unknown plan format "${format as string}". Use text, mermaid or dot`)
+  }
+}
@@ -0,0 +1,82 @@
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { NexocHookable } from '@nexoc/types'
+import { createPipeline, getErrorRunId, PipelineCheckpointError } from '../src'
+
+const hooks = { callHook: async () => {} } as unknown as NexocHookable
+
+describe('checkpoint resume', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'nexoc-checkpoint-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('does not run stages that completed without a result again', async () => {
+    const setup = vi.fn(async () => undefined)
+    let fail = true
+    const pipeline = createPipeline<number>(hooks, { name: 'void', checkpoint: { dir } })
+      .addStage({ name: 'setup', execute: setup })
+      .addStage({
+        name: 'double',
+        execute: async (input: number) => {
+          if (fail) throw new Error('flaky')
+          return input * 2
+        },
+      })
+
+    const error = await pipeline.execute(21).catch(error => error as Error)
+    const runId = getErrorRunId(error)
+    expect(runId).toBeDefined()
+
+    fail = false
+    const { context } = await pipeline.resume(runId!)
+    expect(setup).toHaveBeenCalledOnce()
+    expect(context.stageResults.has('setup')).toBe(true)
+  })
+
+  it('restores results and shared state and runs only the failed stage', async () => {
+    const load = vi.fn(async () => ({ port: 3000 }))
+    let fail = true
+    const pipeline = createPipeline(hooks, { name: 'resume', checkpoint: { dir } })
+      .addStage({
+        name: 'load',
+        execute: async (_, ctx) => {
+          ctx.shared.loaded = true
+          return load()
+        },
+      })
+      .addStage({
+        name: 'start',
+        execute: async (config: { port: number }, ctx) => {
+          if (fail) throw new Error('port in use')
+          return `${config.port} ${String(ctx.shared.loaded)}`
+        },
+      })
+
+    const runId = getErrorRunId(await pipeline.execute(undefined).catch(error => error))
+    fail = false
+    const { result } = await pipeline.resume(runId!)
+
+    expect(result).toBe('3000 true')
+    expect(load).toHaveBeenCalledOnce()
+    await expect(pipeline.resume(runId!)).rejects.toThrow(`No checkpoint "${runId}"`)
+  })
+
+  it('refuses to resume when a stage changed', async () => {
+    const first = createPipeline(hooks, { name: 'changed', checkpoint: { dir } })
+      .addStage({ name: 'fail', execute: async () => { throw new Error('failed') } })
+    const runId = getErrorRunId(await first.execute(undefined).catch(error => error))
+
+    const second = createPipeline(hooks, { name: 'changed', checkpoint: { dir } })
+      .addStage({ name: 'fail', execute: async () => 'fixed' })
+    await expect(second.resume(runId!)).rejects.toThrow(PipelineCheckpointError)
+    await expect(second.resume(runId!)).rejects.toThrow('stage "fail" changed')
+  })
+})
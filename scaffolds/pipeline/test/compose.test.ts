@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import type { NexocHookable } from '@nexoc/types'
+import { composePipelines, createPipeline, defineStage } from '../src'
+
+const hooks = { callHook: async () => {} } as unknown as NexocHookable
+
+const addOne = (name: string) =>
+  createPipeline<number>(hooks, { name }).pipe(defineStage({ name: 'add', execute: async (n: number) => n + 1 }))
+
+describe('composePipelines', () => {
+  it('chains a tuple of pipelines', async () => {
+    const toText = createPipeline<number>(hooks, { name: 'text' })
+      .pipe(defineStage({ name: 'format', execute: async (n: number) => `#${n}` }))
+
+    const { result } = await composePipelines(hooks, 'tuple', [addOne('first'), toText]).execute(1)
+    expect(result).toBe('#2')
+  })
+
+  it('chains an array built at runtime', async () => {
+    const pipelines = ['a', 'b', 'c'].map(addOne)
+
+    const { result, context } = await composePipelines<number>(hooks, 'array', pipelines).execute(0)
+    expect(result).toBe(3)
+    expect(context.shared['pipeline:2:result']).toBe(3)
+  })
+})
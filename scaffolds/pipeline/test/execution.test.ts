@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { NexocHookable } from '@nexoc/types'
+import { createPipeline, getRetryDelay, PipelineAbortError, PipelineTimeoutError } from '../src'
+
+const hooks = { callHook: async () => {} } as unknown as NexocHookable
+
+const retry = { attempts: 5, delay: 100, factor: 2, maxDelay: 500, jitter: false, retryable: () => true }
+
+function waitForAbort(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    signal.addEventListener('abort', () => reject(signal.reason), { once: true })
+  })
+}
+
+describe('getRetryDelay', () => {
+  it('backs off exponentially up to maxDelay', () => {
+    expect([1, 2, 3, 4].map(attempt => getRetryDelay(retry, attempt))).toEqual([100, 200, 400, 500])
+  })
+
+  it('keeps a jittered delay between half and all of it', () => {
+    for (let i = 0; i < 20; i++) {
+      const delay = getRetryDelay({ ...retry, jitter: true }, 2)
+      expect(delay).toBeGreaterThanOrEqual(100)
+      expect(delay).toBeLessThanOrEqual(200)
+    }
+  })
+})
+
+describe('retry', () => {
+  it('retries a failing stage until it succeeds', async () => {
+    const execute = vi.fn()
+      .mockRejectedValueOnce(new Error('first'))
+      .mockRejectedValueOnce(new Error('second'))
+      .mockResolvedValue('done')
+    const pipeline = createPipeline(hooks, { name: 'retry' })
+      .addStage({ name: 'flaky', execute, retry: { attempts: 3, delay: 1, jitter: false } })
+
+    const { result } = await pipeline.execute(undefined)
+    expect(result).toBe('done')
+    expect(execute).toHaveBeenCalledTimes(3)
+  })
+
+  it('gives up once the attempts are used', async () => {
+    const execute = vi.fn().mockRejectedValue(new Error('broken'))
+    const pipeline = createPipeline(hooks, { name: 'retry' })
+      .addStage({ name: 'broken', execute, retry: 2 })
+
+    await expect(pipeline.execute(undefined)).rejects.toThrow('broken')
+    expect(execute).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not retry errors that are not retryable', async () => {
+    const execute = vi.fn().mockRejectedValue(new Error('fatal'))
+    const pipeline = createPipeline(hooks, { name: 'retry' })
+      .addStage({ name: 'fatal', execute, retry: { attempts: 3, delay: 1, retryable: () => false } })
+
+    await expect(pipeline.execute(undefined)).rejects.toThrow('fatal')
+    expect(execute).toHaveBeenCalledOnce()
+  })
+})
+
+describe('timeouts', () => {
+  it('aborts a stage that takes longer than its timeout', async () => {
+    const pipeline = createPipeline(hooks, { name: 'slow' })
+      .addStage({ name: 'slow', timeout: 10, execute: (_, __, signal) => waitForAbort(signal) })
+
+    await expect(pipeline.execute(undefined)).rejects.toBeInstanceOf(PipelineTimeoutError)
+  })
+
+  it('aborts the run when the pipeline timeout passes', async () => {
+    const next = vi.fn()
+    const pipeline = createPipeline(hooks, { name: 'slow', timeout: 10 })
+      .addStage({ name: 'slow', execute: (_, __, signal) => waitForAbort(signal) })
+      .addStage({ name: 'next', execute: next })
+
+    await expect(pipeline.execute(undefined)).rejects.toThrow('Pipeline "slow" timed out after 10ms')
+    expect(next).not.toHaveBeenCalled()
+  })
+})
+
+describe('abort', () => {
+  it('stops the run from an external signal', async () => {
+    const controller = new AbortController()
+    const next = vi.fn()
+    const pipeline = createPipeline(hooks, { name: 'abort' })
+      .addStage({
+        name: 'wait',
+        execute: (_, __, signal) => {
+          controller.abort(new Error('cancelled'))
+          return waitForAbort(signal)
+        },
+      })
+      .addStage({ name: 'next', execute: next })
+
+    await expect(pipeline.execute(undefined, { signal: controller.signal })).rejects.toThrow('cancelled')
+    expect(next).not.toHaveBeenCalled()
+  })
+
+  it('stops the run with abort()', async () => {
+    const pipeline = createPipeline(hooks, { name: 'abort' })
+    pipeline.addStage({
+      name: 'wait',
+      execute: (_, ctx, signal) => {
+        pipeline.abort(ctx, 'no longer needed')
+        return waitForAbort(signal)
+      },
+    })
+
+    await expect(pipeline.execute(undefined)).rejects.toThrow(PipelineAbortError)
+    await expect(pipeline.execute(undefined)).rejects.toThrow('Pipeline "abort" aborted: no longer needed')
+  })
+})
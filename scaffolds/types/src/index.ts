@@ -1,6 +1,6 @@
 import type { Hookable } from 'hookable'
 
-export type LifecyclePhase =
+export type BuiltinLifecyclePhase =
   | 'init'
   | 'validate'
   | 'prepare'
@@ -10,82 +10,390 @@ export type LifecyclePhase =
   | 'finalize'
   | 'cleanup'
 
+/**
+ * Custom phases are declared by augmenting this interface, which also
+ * types their `lifecycle:<phase>` hook:
+ *
+ *   declare module '@nexoc/types' {
+ *     interface CustomLifecyclePhases { install: true }
+ *   }
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface CustomLifecyclePhases {}
+
+export type LifecyclePhase = BuiltinLifecyclePhase | Extract<keyof CustomLifecyclePhases, string>
+
+/** Where a custom phase goes, relative to a registered one */
+export type LifecyclePhasePosition =
+  | { before: LifecyclePhase; after?: never }
+  | { after: LifecyclePhase; before?: never }
+
+export interface LifecyclePhaseRegistry {
+  /** Inserts a phase, by default right before `finalize` */
+  register: (phase: LifecyclePhase, position?: LifecyclePhasePosition) => void
+  has: (phase: string) => phase is LifecyclePhase
+  /** Registered phases in run order */
+  list: () => LifecyclePhase[]
+  /** Removes a custom phase, built-in phases can't be removed */
+  remove: (phase: LifecyclePhase) => boolean
+}
+
 export interface LifecycleContext<T = unknown> {
   phase: LifecyclePhase
   data: T
   aborted: boolean
   abortReason?: string
+  /** Aborts when the lifecycle run is aborted */
+  signal: AbortSignal
   meta: Record<string, unknown>
+  /**
+   * Registers a compensating action that undoes work of this phase. Actions
+   * run in reverse order when this or a later phase fails or the run is
+   * aborted, and are dropped when the run succeeds.
+   */
+  onRollback: (description: string, action: LifecycleRollbackAction) => void
 }
 
-export interface PipelineStage<TInput = unknown, TOutput = unknown> {
-  name: string
+export type LifecycleRollbackAction = () => void | Promise<void>
+
+export interface LifecycleRollbackResult {
+  /** Phase that registered the action */
+  phase: LifecyclePhase
+  description: string
+  status: 'undone' | 'failed'
+  duration: number
+  error?: Error
+}
+
+/** What a rollback undid, in the order the actions ran */
+export interface LifecycleRollbackReport {
+  actions: LifecycleRollbackResult[]
+  /** False when an action threw, the remaining actions still ran */
+  success: boolean
+  duration: number
+}
+
+/**
+ * Does the work of a lifecycle phase. Returning a value other than
+ * undefined replaces `ctx.data` for the following handlers and phases.
+ */
+export type LifecyclePhaseHandler<T = unknown> = (
+  data: T,
+  ctx: LifecycleContext<T>
+) => T | void | Promise<T | void>
+
+export type LifecyclePhaseStatus = 'completed' | 'skipped' | 'failed'
+
+export interface LifecyclePhaseResult {
+  phase: LifecyclePhase
+  status: LifecyclePhaseStatus
+  /** Milliseconds, 0 for skipped phases */
+  duration: number
+  /** Why a phase was skipped */
+  reason?: string
+  error?: Error
+}
+
+/** What happened to every phase in the range of a `run` */
+export interface LifecycleReport {
+  phases: LifecyclePhaseResult[]
+  success: boolean
+  aborted: boolean
+  abortReason?: string
+  /** The first error thrown by a phase */
+  error?: Error
+  /** Set when the run failed or was aborted with rollback actions registered */
+  rollback?: LifecycleRollbackReport
+  duration: number
+}
+
+export type StageInputResolver<TInput = unknown> = (
+  dependencyResults: Record<string, unknown>,
+  ctx: PipelineContext
+) => TInput | Promise<TInput>
+
+export interface StageRetryOptions {
+  /** Total number of attempts, including the first one (default 3) */
+  attempts?: number
+  /** Delay in milliseconds before the first retry (default 100) */
+  delay?: number
+  /** Multiplier applied to the delay after every attempt (default 2) */
+  factor?: number
+  /** Upper bound for a single delay in milliseconds (default 30000) */
+  maxDelay?: number
+  /** Randomize each delay between 50% and 100% of its value (default true) */
+  jitter?: boolean
+  /** Decides whether an error is worth another attempt, all errors are by default */
+  retryable?: (error: Error, attempt: number) => boolean
+}
+
+export interface StageAttempt {
+  /** 1-based number of the attempt that failed */
+  attempt: number
+  attempts: number
+  willRetry: boolean
+}
+
+export interface PipelineStage<TInput = unknown, TOutput = unknown, TName extends string = string> {
+  name: TName
   description?: string
-  execute: (input: TInput, ctx: PipelineContext) => Promise<TOutput> | TOutput
+  /**
+   * `signal` aborts when the stage or pipeline times out; long-running work
+   * should pass it on or check it.
+   */
+  execute: (input: TInput, ctx: PipelineContext, signal: AbortSignal) => Promise<TOutput> | TOutput
+  /** Retry settings for this stage, or the number of attempts */
+  retry?: StageRetryOptions | number
+  /** Milliseconds a single attempt may take */
+  timeout?: number
   skippable?: boolean
   dependencies?: string[]
   condition?: (ctx: PipelineContext) => boolean | Promise<boolean>
+  /**
+   * Where the stage input comes from. By default a stage receives the previous
+   * stage's output (sequential) or the pipeline input (parallel). `'dependencies'`
+   * passes the results of `dependencies` keyed by stage name; a function maps
+   * them to the input. Skipped dependencies are left out.
+   */
+  input?: 'dependencies' | StageInputResolver<TInput>
 }
 
-export interface PipelineContext {
+/** Map of stage outputs whose `get` knows the output type of stages added with `pipe` */
+export interface StageResults<TResults extends Record<string, unknown> = Record<string, unknown>>
+  extends Map<string, unknown> {
+  get<TName extends keyof TResults & string>(name: TName): TResults[TName] | undefined
+  get(name: string): unknown
+}
+
+export interface PipelineContext<TResults extends Record<string, unknown> = Record<string, unknown>> {
   pipelineName: string
   currentStageIndex: number
-  stageResults: Map<string, unknown>
+  stageResults: StageResults<TResults>
   shared: Record<string, unknown>
   aborted: boolean
   skippedStages: Set<string>
+  /** Aborts when the pipeline is aborted or times out */
+  signal: AbortSignal
+  /** Identifies the checkpoint of this run when checkpointing is enabled */
+  runId?: string
+  /** Context of the pipeline this one runs in as a sub-pipeline */
+  parent?: PipelineContext
+  /** Prefix of this run's stage results in `parent.stageResults` */
+  namespace?: string
+}
+
+export interface PipelineExecuteOptions {
+  /** External signal that aborts the run, e.g. from the CLI on Ctrl+C */
+  signal?: AbortSignal
+  /** Checkpoint id for this run, generated when omitted */
+  runId?: string
+  /**
+   * Runs the pipeline as part of another one: `shared` falls back to the
+   * parent's values and stage results are copied to the parent as
+   * `<namespace>/<stage>`.
+   */
+  parent?: PipelineContext
+  /** Defaults to the pipeline name */
+  namespace?: string
+}
+
+/**
+ * Converts checkpointed values that JSON cannot represent (Map, Date, class
+ * instances, ...). `key` is `input`, `stage:<name>` or `shared:<key>`.
+ */
+export interface PipelineCheckpointSerializer {
+  serialize: (value: unknown, key: string) => unknown
+  deserialize: (value: unknown, key: string) => unknown
+}
+
+export interface PipelineCheckpointOptions {
+  /** Directory for checkpoint files, relative to the working directory (default .nexoc/checkpoints) */
+  dir?: string
+  /** Keep the checkpoint after a successful run (default false) */
+  keep?: boolean
+  serializer?: PipelineCheckpointSerializer
+}
+
+export interface PipelineCheckpoint {
+  format: number
+  runId: string
+  pipeline: string
+  status: 'running' | 'failed' | 'completed'
+  createdAt: number
+  updatedAt: number
+  /** Fingerprint of every stage definition, in declaration order */
+  stages: Array<{ name: string; hash: string }>
+  input: unknown
+  /** Stages that completed, also those without an entry in `stageResults` */
+  completedStages: string[]
+  stageResults: Record<string, unknown>
+  skippedStages: string[]
+  shared: Record<string, unknown>
 }
 
+export type PipelinePlanStatus = 'run' | 'skip' | 'done' | 'unknown'
+
+export interface PipelinePlanStage {
+  name: string
+  description?: string
+  dependencies: string[]
+  /** Stages of the same group can run at the same time in parallel mode */
+  group: number
+  /** `done` stages completed in the checkpoint being resumed */
+  status: PipelinePlanStatus
+  /** Why the stage is skipped or its condition could not be evaluated */
+  reason?: string
+}
+
+export interface PipelinePlan {
+  pipeline: string
+  parallel: boolean
+  concurrency?: number
+  runId?: string
+  /** Stages in the order they would start */
+  stages: PipelinePlanStage[]
+  /** Stage names per group, in group order */
+  groups: string[][]
+}
+
+export interface PipelinePlanOptions {
+  /** State the stage conditions are evaluated against */
+  context?: Partial<PipelineContext>
+  /** Plan the remainder of a checkpointed run */
+  resume?: string
+}
+
+export type PipelinePlanFormat = 'text' | 'mermaid' | 'dot'
+
 export interface PipelineOptions {
   name: string
   parallel?: boolean
+  /** Maximum number of stages running at once in parallel mode */
+  concurrency?: number
   onError?: 'stop' | 'continue' | 'retry'
+  /** Retries after the first attempt when `onError` is 'retry' */
   maxRetries?: number
+  /** Retry settings for stages without their own `retry` when `onError` is 'retry' */
+  retry?: StageRetryOptions
+  /** Milliseconds the whole pipeline may take */
+  timeout?: number
+  /** Persist the run state after every stage so a failed run can be resumed */
+  checkpoint?: boolean | PipelineCheckpointOptions
 }
 
-export interface NexocHooks {
-  'lifecycle:init': (ctx: LifecycleContext) => void | Promise<void>
-  'lifecycle:validate': (ctx: LifecycleContext) => void | Promise<void>
-  'lifecycle:prepare': (ctx: LifecycleContext) => void | Promise<void>
-  'lifecycle:execute': (ctx: LifecycleContext) => void | Promise<void>
-  'lifecycle:transform': (ctx: LifecycleContext) => void | Promise<void>
-  'lifecycle:generate': (ctx: LifecycleContext) => void | Promise<void>
-  'lifecycle:finalize': (ctx: LifecycleContext) => void | Promise<void>
-  'lifecycle:cleanup': (ctx: LifecycleContext) => void | Promise<void>
+/** A `lifecycle:<phase>` hook for every built-in and custom phase */
+export type LifecyclePhaseHooks = {
+  [P in LifecyclePhase as `lifecycle:${P}`]: (ctx: LifecycleContext) => void | Promise<void>
+}
+
+export interface NexocHooks extends LifecyclePhaseHooks {
+  /** `ctx.phase` is the phase whose hook or handler threw */
+  'lifecycle:error': (ctx: LifecycleContext, error: Error) => void | Promise<void>
+  /** Called after the rollback actions ran, `ctx` is the phase that failed or was aborted */
+  'lifecycle:rollback': (ctx: LifecycleContext, report: LifecycleRollbackReport) => void | Promise<void>
   'pipeline:start': (ctx: PipelineContext) => void | Promise<void>
   'pipeline:stage:before': (stage: PipelineStage, ctx: PipelineContext) => void | Promise<void>
   'pipeline:stage:after': (stage: PipelineStage, result: unknown, ctx: PipelineContext) => void | Promise<void>
-  'pipeline:stage:error': (stage: PipelineStage, error: Error, ctx: PipelineContext) => void | Promise<void>
+  'pipeline:stage:error': (stage: PipelineStage, error: Error, ctx: PipelineContext, attempt: StageAttempt) => void | Promise<void>
   'pipeline:stage:skip': (stage: PipelineStage, ctx: PipelineContext) => void | Promise<void>
   'pipeline:end': (ctx: PipelineContext) => void | Promise<void>
+  'pipeline:abort': (ctx: PipelineContext, reason: unknown) => void | Promise<void>
+  'pipeline:error': (ctx: PipelineContext, error: Error) => void | Promise<void>
+  'pipeline:checkpoint': (ctx: PipelineContext, file: string) => void | Promise<void>
   'command:before': (command: string, args: unknown) => void | Promise<void>
   'command:after': (command: string, result: unknown) => void | Promise<void>
   'command:error': (command: string, error: Error) => void | Promise<void>
-  'build:before': (options: BuildOptions) => void | Promise<void>
-  'build:after': (result: BuildResult) => void | Promise<void>
-  'build:error': (error: Error) => void | Promise<void>
+  'build:before': (options: BuildOptions, adapter: string) => void | Promise<void>
+  'build:after': (result: BuildResult, options: BuildOptions) => void | Promise<void>
+  'build:error': (error: Error, options: BuildOptions) => void | Promise<void>
+  'dev:start': (options: DevOptions) => void | Promise<void>
+  'dev:change': (changes: DevChange[]) => void | Promise<void>
+  'dev:rebuild': (result: BuildResult, changes: DevChange[]) => void | Promise<void>
+  'dev:stop': () => void | Promise<void>
 }
 
 export type NexocHookable = Hookable<NexocHooks>
 
+export type TraceSpanKind = 'command' | 'lifecycle' | 'pipeline' | 'stage' | 'hook' | 'build'
+
+export type TraceSpanStatus = 'ok' | 'error' | 'skipped' | 'aborted'
+
+export interface TraceSpan {
+  id: number
+  parentId?: number
+  kind: TraceSpanKind
+  name: string
+  /** Milliseconds since the tracer was created */
+  start: number
+  end?: number
+  duration?: number
+  status?: TraceSpanStatus
+  error?: string
+  /** Failed attempts that were retried, for stages */
+  retries?: number
+  attributes: Record<string, unknown>
+}
+
+/** Trace Event Format, as loaded by chrome://tracing and Perfetto */
+export interface ChromeTraceEvent {
+  name: string
+  cat?: string
+  ph: 'X' | 'M'
+  /** Microseconds */
+  ts: number
+  dur?: number
+  pid: number
+  tid: number
+  args?: Record<string, unknown>
+}
+
 export interface CommandMeta {
   name: string
   description: string
   aliases?: string[]
   hidden?: boolean
   group?: string
+  /** Accepts `--resume`, for commands that run checkpointed pipelines */
+  supportsResume?: boolean
+  /** Accepts `--dry-run`, the command must then not change anything */
+  supportsDryRun?: boolean
 }
 
 export interface CommandOptions {
   [key: string]: CommandOptionDef
 }
 
+export type PromptType = 'text' | 'confirm' | 'select' | 'multiselect'
+
+export interface PromptChoice {
+  value: string
+  label?: string
+  hint?: string
+}
+
+export interface PromptDef {
+  type: PromptType
+  message: string
+  choices?: Array<string | PromptChoice>
+  initial?: unknown
+  validate?: (value: unknown) => true | string
+}
+
+export interface PromptQuestion extends PromptDef {
+  name: string
+}
+
+export interface Prompter {
+  prompt: (question: PromptQuestion) => Promise<unknown>
+}
+
 export interface CommandOptionDef {
   type: 'string' | 'boolean' | 'number'
   description: string
   alias?: string
   default?: unknown
   required?: boolean
+  prompt?: PromptDef
 }
 
 export interface CommandArgs {
@@ -96,6 +404,7 @@ export interface CommandArgDef {
   description: string
   required?: boolean
   default?: unknown
+  prompt?: PromptDef
 }
 
 export interface Command<TOptions = Record<string, unknown>, TArgs = Record<string, unknown>> {
@@ -113,12 +422,30 @@ export interface CommandContext<TOptions = Record<string, unknown>, TArgs = Reco
   args: TArgs
   rawArgs: string[]
   nexoc: NexocInstance
+  logger: Logger
+  interactive: boolean
+  prompt: (question: PromptQuestion) => Promise<unknown>
+  /** Aborts on SIGINT/SIGTERM; long-running commands should pass it on or check it */
+  signal: AbortSignal
+  /** Run id given with `--resume`, for commands that run checkpointed pipelines */
+  resume?: string
+  /** Set by `--dry-run`: print the pipeline plan in this format instead of running it */
+  dryRun?: PipelinePlanFormat
 }
 
 export interface BuildOptions {
   rootDir: string
   outDir: string
   production?: boolean
+  entry?: string | string[]
+  format?: 'esm' | 'cjs'
+  sourcemap?: boolean
+  minify?: boolean
+  target?: string
+  /** Outputs of the build targets this one depends on, keyed by target name */
+  inputs?: Record<string, string[]>
+  /** Set to false to bypass the build cache */
+  cache?: boolean
   [key: string]: unknown
 }
 
@@ -128,14 +455,91 @@ export interface BuildResult {
   duration: number
   errors?: string[]
   warnings?: string[]
+  /** Per-target breakdown when several targets were built together */
+  targets?: BuildTargetResult[]
+  cache?: BuildCacheStatus
+}
+
+export interface BuildCacheStatus {
+  hit: boolean
+  key: string
+}
+
+export interface BuildCacheConfig {
+  /** Cache directory relative to rootDir (defaults to `.nexoc/cache`) */
+  dir?: string
+  /** Prune least recently used entries once the cache exceeds this many bytes */
+  maxSize?: number
+  /** Prune entries not used for this many milliseconds */
+  maxAge?: number
+  /** Globs relative to rootDir excluded from the input hash */
+  ignore?: string[]
+}
+
+export interface BuildTarget {
+  /** Unique name within the plan, defaults to the adapter name */
+  name?: string
+  adapter: string
+  /** Overrides merged over the shared BuildOptions, e.g. a per-target outDir */
+  options?: Partial<BuildOptions>
+  /** Targets whose outputs this target consumes; it runs after they succeed */
+  dependsOn?: string[]
+}
+
+export interface BuildTargetResult extends BuildResult {
+  target: string
+  adapter: string
+  outDir: string
+  skipped?: boolean
+}
+
+export type BuildPolicy = 'fail-fast' | 'best-effort'
+
+export interface BuildPlanOptions {
+  policy?: BuildPolicy
+}
+
+export interface DevOptions extends BuildOptions {
+  /** Globs relative to rootDir that never trigger a rebuild */
+  ignore?: string[]
+  /** Quiet period in milliseconds before changes trigger a rebuild */
+  debounce?: number
+  /** Stop on SIGINT (defaults to true, ignored when `signal` is set) */
+  handleSignals?: boolean
+  /** Stops the dev server when aborted */
+  signal?: AbortSignal
+}
+
+export type DevChangeType = 'add' | 'change' | 'unlink'
+
+export interface DevChange {
+  type: DevChangeType
+  /** Path relative to rootDir */
+  path: string
+}
+
+/** Adapter-side dev state, e.g. the process running the last build */
+export interface DevSession {
+  update?: (result: BuildResult) => void | Promise<void>
+  close?: () => void | Promise<void>
+}
+
+export interface DevServer {
+  rebuild: () => Promise<BuildResult>
+  close: () => Promise<void>
+  /** Settles once the server has stopped */
+  closed: Promise<void>
 }
 
 export interface BuildAdapter {
   name: string
+  /** Part of the build cache key, bump it when the adapter's output changes */
+  version?: string
   description?: string
   targets?: string[]
+  configSchema?: ConfigSchema
   build: (options: BuildOptions) => Promise<BuildResult>
-  dev?: (options: BuildOptions) => Promise<void>
+  dev?: (options: DevOptions) => Promise<DevSession | void>
   clean?: (options: BuildOptions) => Promise<void>
   setup?: () => Promise<void>
 }
@@ -147,25 +551,109 @@ export interface AdapterRegistry {
   remove: (name: string) => boolean
 }
 
-export interface NexocConfig {
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+
+export type LogFormat = 'text' | 'json'
+
+export interface Spinner {
+  update: (text: string) => void
+  succeed: (text?: string) => void
+  fail: (text?: string) => void
+  stop: () => void
+}
+
+export interface ProgressBar {
+  tick: (amount?: number, text?: string) => void
+  done: (text?: string) => void
+}
+
+export interface Logger {
+  readonly level: LogLevel
+  readonly tag?: string
+  debug: (message: string, ...args: unknown[]) => void
+  info: (message: string, ...args: unknown[]) => void
+  success: (message: string, ...args: unknown[]) => void
+  warn: (message: string, ...args: unknown[]) => void
+  error: (message: string | Error, ...args: unknown[]) => void
+  child: (tag: string) => Logger
+  spinner: (text: string) => Spinner
+  progress: (total: number, text?: string) => ProgressBar
+}
+
+/**
+ * Config sections of adapters and plugins, keyed by their name. Third-party
+ * adapters and plugins add theirs through declaration merging:
+ *
+ *   declare module '@nexoc/types' {
+ *     interface NexocConfigSections { 'my-plugin'?: MyPluginOptions }
+ *   }
+ */
+export interface NexocConfigSections {
+  node?: Partial<BuildOptions>
+  static?: Partial<BuildOptions>
+  serverless?: Partial<BuildOptions>
+}
+
+export interface NexocConfig extends NexocConfigSections {
   rootDir?: string
-  logLevel?: 'debug' | 'info' | 'warn' | 'error' | 'silent'
+  logLevel?: LogLevel
+  logFormat?: LogFormat
   defaultAdapter?: string
+  targets?: BuildTarget[]
+  cache?: BuildCacheConfig | false
   plugins?: NexocPlugin[]
 }
 
-export interface NexocPlugin {
+export type ConfigValueType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'function'
+
+export interface ConfigSchemaField {
+  type: ConfigValueType | ConfigValueType[]
+  description?: string
+  enum?: readonly unknown[]
+  properties?: ConfigSchema
+  items?: ConfigSchemaField
+  required?: boolean
+  validate?: (value: unknown) => true | string
+}
+
+export type ConfigSchema = Record<string, ConfigSchemaField>
+
+export type NexocUserConfig = Partial<NexocConfig> & {
+  $development?: Partial<NexocConfig>
+  $production?: Partial<NexocConfig>
+  [environment: `$${string}`]: Partial<NexocConfig> | undefined
+}
+
+export interface ConfigSource {
+  type: 'default' | 'package' | 'file' | 'env' | 'cli'
+  path?: string
+  environment?: string
+}
+
+export interface NexocPlugin<TOptions = object> {
   name: string
-  install: (nexoc: NexocInstance) => void | Promise<void>
+  enforce?: 'pre' | 'post'
+  dependsOn?: string[]
+  options?: TOptions
+  configSchema?: ConfigSchema
+  install(nexoc: NexocInstance, options: TOptions): void | Promise<void>
+  dispose?(nexoc: NexocInstance): void | Promise<void>
 }
 
 export interface NexocInstance {
   config: NexocConfig
+  configSources: Record<string, ConfigSource>
   hooks: NexocHookable
   commands: Map<string, Command>
   adapters: AdapterRegistry
+  /** Lifecycle phases shared by every lifecycle created for this instance */
+  phases: LifecyclePhaseRegistry
+  logger: Logger
+  prompter: Prompter
+  plugins: Map<string, NexocPlugin>
   registerCommand: (command: Command) => void
   runCommand: (name: string, args?: string[]) => Promise<void>
   use: (plugin: NexocPlugin) => Promise<void>
+  close: () => Promise<void>
 }
 
@@ -0,0 +1,30 @@
+import { defineTemplate } from '@nexoc/generator'
+
+export default defineTemplate({
+  name: 'default',
+  description: 'Minimal TypeScript project',
+  questions: [
+    {
+      type: 'string',
+      name: 'description',
+      message: 'Project description',
+      default: 'A Nexo project',
+    },
+    {
+      type: 'boolean',
+      name: 'git',
+      message: 'Initialize a git repository?',
+      default: true,
+    },
+    {
+      type: 'boolean',
+      name: 'install',
+      message: 'Install dependencies?',
+      default: false,
+    },
+  ],
+  actions: [
+    { type: 'git', when: answers => answers.git === true },
+    { type: 'install', when: answers => answers.install === true },
+  ],
+})